@@ -1,12 +1,49 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { Layers, Map as MapIcon, Database, ChevronRight, Activity, Upload, Loader2 } from 'lucide-react';
-import { Region, Aquifer, Well, Measurement } from './types';
-import { loadAllData } from './services/dataLoader';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Layers, Map as MapIcon, Database, ChevronRight, Activity, Upload, Loader2, BarChart3, X, TrendingDown, Download } from 'lucide-react';
+import {
+  Region, Aquifer, Well, Measurement, QAFlag, HydrographSeries, SeriesNormalization, RegionLoadProgress, WellTrend, WellSlice,
+  WaterTableSurface
+} from './types';
+import { loadRegionIndex, loadRegionData, loadRegionManifest } from './services/dataLoader';
+import { buildRegionZip, listImportedRegions } from './services/importedRegions';
+import { DEFAULT_MAX_GAP_DAYS } from './services/timeSlice';
+import { runWorkerTask, isAbortError } from './services/workerClient';
+import { runMeasurementQA, measurementKey, qaOptionsForUnit } from './services/measurementQA';
+import { loadExclusions, saveExclusions, storeImportedExclusions } from './services/exclusions';
+import {
+  createMeasurementStore, filterMeasurementStore, wellMeasurements, measurementsForWells,
+  measurementsForAquifer, wellsDateRange
+} from './services/measurementStore';
+import { buildHydrographPoints, hydrographToCsv } from './services/hydrograph';
+import { VariogramModel, VariogramParams } from './utils/kriging';
+import { createDateRangeTest, DateRange, isDateRangeActive } from './utils/dates';
+import { hasValidGse, ValueMode } from './utils/wells';
+import { INTERPOLATION_METHODS, InterpolationMethod } from './utils/interpolation';
+import { ChartExportOptions, exportChartPng, exportChartSvg } from './utils/chartExport';
+import { downloadBlob } from './utils/download';
+import { seriesColor } from './utils/colorRamp';
+import { displayUnits, LengthUnit, LENGTH_UNITS } from './utils/units';
 import MapView from './components/MapView';
 import Sidebar from './components/Sidebar';
 import TimeSeriesChart from './components/TimeSeriesChart';
 import DataManager from './components/DataManager';
+import SurfacePanel from './components/SurfacePanel';
+import TimeSlicePanel from './components/TimeSlicePanel';
+import TimeSliceTable from './components/TimeSliceTable';
+import TimeSlider from './components/TimeSlider';
+import StoragePanel from './components/StoragePanel';
+import TrendTable from './components/TrendTable';
+import CompositePanel from './components/CompositePanel';
+import DateRangeFilter from './components/DateRangeFilter';
+
+const MAX_GAP_OPTIONS: { label: string; years: number | null }[] = [
+  { label: 'Break gaps > 1 yr', years: 1 },
+  { label: 'Break gaps > 2 yr', years: 2 },
+  { label: 'Break gaps > 5 yr', years: 5 },
+  { label: 'Break gaps > 10 yr', years: 10 },
+  { label: 'Bridge all gaps', years: null },
+];
 
 const App: React.FC = () => {
   const [regions, setRegions] = useState<Region[]>([]);
@@ -18,21 +55,60 @@ const App: React.FC = () => {
 
   const [selectedRegion, setSelectedRegion] = useState<Region | null>(null);
   const [selectedAquifer, setSelectedAquifer] = useState<Aquifer | null>(null);
-  const [selectedWell, setSelectedWell] = useState<Well | null>(null);
+  const [selectedWells, setSelectedWells] = useState<Well[]>([]);
   const [isDataManagerOpen, setIsDataManagerOpen] = useState(false);
 
-  // Load data on mount
+  // Map every well of the selected region while no aquifer is selected
+  const [showAllWells, setShowAllWells] = useState(false);
+
+  // Time slice: every well's WTE estimated at a common date
+  const [isTimeSliceEnabled, setIsTimeSliceEnabled] = useState(false);
+  const [sliceDate, setSliceDate] = useState('');
+  const [maxGapDays, setMaxGapDays] = useState(DEFAULT_MAX_GAP_DAYS);
+  const [isSliceTableOpen, setIsSliceTableOpen] = useState(false);
+
+  // Kriged water table surface settings
+  const [isSurfaceEnabled, setIsSurfaceEnabled] = useState(false);
+  const [variogramModel, setVariogramModel] = useState<VariogramModel>('spherical');
+  const [manualVariogram, setManualVariogram] = useState<VariogramParams | null>(null);
+
+  const [isStoragePanelOpen, setIsStoragePanelOpen] = useState(false);
+  const [isTrendTableOpen, setIsTrendTableOpen] = useState(false);
+
+  // Plot and color wells by water table elevation or depth to water
+  const [valueMode, setValueMode] = useState<ValueMode>('wte');
+
+  // Hydrograph interpolation between measurements
+  const [interpolationMethod, setInterpolationMethod] = useState<InterpolationMethod>('pchip');
+  const [maxGapYears, setMaxGapYears] = useState<number | null>(5);
+  const [normalization, setNormalization] = useState<SeriesNormalization>('none');
+  // Hydrograph time window zoomed into; null shows the whole record
+  const [hydrographZoom, setHydrographZoom] = useState<[number, number] | null>(null);
+
+  // Global period of interest; empty bounds are open-ended
+  const [dateFilter, setDateFilter] = useState<DateRange>({ start: '', end: '' });
+
+  // Length units values are shown in, independent of each region's data units
+  const [displayUnit, setDisplayUnit] = useState<LengthUnit>('ft');
+
+  // Measurement QA: manual exclusions persist per region, over those saved with its data
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set());
+  const [savedExclusions, setSavedExclusions] = useState<Record<string, string[]>>({});
+  const [excludeFlagged, setExcludeFlagged] = useState(false);
+
+  // Regions whose contents are loaded, and progress of those still loading
+  const loadedRegionIdsRef = useRef(new Set<string>());
+  const [regionProgress, setRegionProgress] = useState<Record<string, RegionLoadProgress>>({});
+
+  // Load the region index on mount; region contents load on selection
   useEffect(() => {
     const loadData = async () => {
       try {
         setIsLoading(true);
         setLoadError(null);
-        const data = await loadAllData();
-        setRegions(data.regions);
-        setAquifers(data.aquifers);
-        setWells(data.wells);
-        setMeasurements(data.measurements);
-        console.log(`Loaded: ${data.regions.length} regions, ${data.aquifers.length} aquifers, ${data.wells.length} wells, ${data.measurements.length} measurements`);
+        const index = await loadRegionIndex();
+        setRegions(index);
+        console.log(`Loaded: ${index.length} regions`);
       } catch (e) {
         console.error('Failed to load data:', e);
         setLoadError(e instanceof Error ? e.message : 'Failed to load data');
@@ -43,6 +119,73 @@ const App: React.FC = () => {
     loadData();
   }, []);
 
+  // Fetch a region's aquifers, wells and water levels the first time it is selected
+  useEffect(() => {
+    if (!selectedRegion || loadedRegionIdsRef.current.has(selectedRegion.id)) return;
+    const region = selectedRegion;
+    const setProgress = (done: number, total: number) =>
+      setRegionProgress(prev => ({ ...prev, [region.id]: { done, total } }));
+
+    setProgress(0, 3);
+    loadRegionData(region, setProgress)
+      .then(data => {
+        if (loadedRegionIdsRef.current.has(region.id)) return;
+        loadedRegionIdsRef.current.add(region.id);
+        setAquifers(prev => [...prev, ...data.aquifers]);
+        setSavedExclusions(prev => ({ ...prev, [region.id]: data.exclusions }));
+        // An update made before the region was first loaded has already appended some of these records
+        setWells(prev => {
+          const present = new Set(prev.filter(w => w.regionId === region.id).map(w => w.id));
+          return [...prev, ...data.wells.filter(w => !present.has(w.id))];
+        });
+        setMeasurements(prev => {
+          const present = new Set(prev.filter(m => m.regionId === region.id).map(measurementKey));
+          return [...prev, ...data.measurements.filter(m => !present.has(measurementKey(m)))];
+        });
+        console.log(`Loaded ${region.name}: ${data.aquifers.length} aquifers, ${data.wells.length} wells, ${data.measurements.length} measurements`);
+      })
+      .catch(e => console.warn(`Failed to load region ${region.name}:`, e))
+      .finally(() => setRegionProgress(prev => {
+        const { [region.id]: _, ...rest } = prev;
+        return rest;
+      }));
+  }, [selectedRegion]);
+
+  // Regions added by the Data Manager arrive with their contents already loaded
+  const addImportedRegions = (added: Region[]) => {
+    for (const r of added) loadedRegionIdsRef.current.add(r.id);
+    setRegions(prev => [...prev, ...added]);
+  };
+
+  // Regions renamed, reordered, edited or deleted in the Data Manager. Contents of `stale`
+  // regions (by their previous IDs) are dropped and load again on the next selection.
+  const applyRegionChanges = (next: Region[], stale: string[]) => {
+    const staleIds = new Set(stale);
+    for (const id of stale) loadedRegionIdsRef.current.delete(id);
+    setAquifers(prev => prev.filter(a => !staleIds.has(a.regionId)));
+    setWells(prev => prev.filter(w => !staleIds.has(w.regionId)));
+    setMeasurements(prev => prev.filter(m => !staleIds.has(m.regionId)));
+    setRegions(next);
+
+    // Keep the selection while the region keeps its ID and contents
+    const kept = selectedRegion && !staleIds.has(selectedRegion.id) ? next.find(r => r.id === selectedRegion.id) : undefined;
+    setSelectedRegion(kept ?? null);
+    if (!kept) {
+      setSelectedAquifer(null);
+      setSelectedWells([]);
+    }
+  };
+
+  const exportImportedRegions = async () => {
+    try {
+      const records = await listImportedRegions();
+      const blob = await buildRegionZip(records, await loadRegionManifest());
+      downloadBlob(blob, 'imported-regions.zip');
+    } catch (e) {
+      console.warn('Could not export imported regions:', e);
+    }
+  };
+
   // Filtered views
   const filteredAquifers = useMemo(() => 
     selectedRegion ? aquifers.filter(a => a.regionId === selectedRegion.id) : [],
@@ -52,9 +195,209 @@ const App: React.FC = () => {
     selectedAquifer ? wells.filter(w => w.aquiferId === selectedAquifer.id && w.regionId === selectedAquifer.regionId) : [],
   [selectedAquifer, wells]);
 
-  const selectedWellMeasurements = useMemo(() => 
-    selectedWell ? measurements.filter(m => m.wellId === selectedWell.id) : [],
-  [selectedWell, measurements]);
+  const mapWells = useMemo(() => {
+    if (selectedAquifer) return filteredWells;
+    return showAllWells && selectedRegion ? wells.filter(w => w.regionId === selectedRegion.id) : [];
+  }, [selectedAquifer, filteredWells, showAllWells, selectedRegion, wells]);
+
+  // Measurements indexed by well, rebuilt only when data is loaded or imported
+  const measurementStore = useMemo(() => createMeasurementStore(measurements, wells), [measurements, wells]);
+
+  // Measurements inside the global date filter
+  const periodStore = useMemo(() => {
+    if (!isDateRangeActive(dateFilter)) return measurementStore;
+    const inRange = createDateRangeTest(dateFilter);
+    return filterMeasurementStore(measurementStore, m => inRange(m.date));
+  }, [measurementStore, dateFilter]);
+
+  const selectedWell = selectedWells.length > 0 ? selectedWells[0] : null;
+  const selectedWellIds = useMemo(() => selectedWells.map(w => w.id), [selectedWells]);
+
+  const hydrographSeries = useMemo((): HydrographSeries[] =>
+    selectedWells.map(w => ({
+      wellId: w.id,
+      wellName: w.name,
+      gse: hasValidGse(w) ? w.gse : null,
+      measurements: wellMeasurements(periodStore, w.id)
+    })),
+  [selectedWells, periodStore]);
+
+  // A new set of series shows its whole record
+  useEffect(() => {
+    setHydrographZoom(null);
+  }, [hydrographSeries]);
+
+  // Plain click selects one well; shift-click or the sidebar checkboxes add and remove wells
+  const toggleWell = (well: Well, additive: boolean) => {
+    setSelectedWells(prev => {
+      if (!additive) return [well];
+      return prev.some(w => w.id === well.id) ? prev.filter(w => w.id !== well.id) : [...prev, well];
+    });
+  };
+
+  useEffect(() => {
+    if (selectedRegion) setDisplayUnit(selectedRegion.lengthUnit);
+  }, [selectedRegion]);
+
+  // Exclusions saved with the region arrive once its data is loaded
+  const regionSavedExclusions = selectedRegion ? savedExclusions[selectedRegion.id] : undefined;
+  useEffect(() => {
+    setExcludedKeys(selectedRegion ? loadExclusions(selectedRegion.id, regionSavedExclusions ?? []) : new Set<string>());
+  }, [selectedRegion, regionSavedExclusions]);
+
+  const units = useMemo(() =>
+    displayUnits(selectedRegion?.lengthUnit ?? 'ft', displayUnit),
+  [selectedRegion, displayUnit]);
+
+  const qaFlags = useMemo(() => {
+    if (!selectedRegion) return new Map<string, QAFlag[]>();
+    const regionWells = wells.filter(w => w.regionId === selectedRegion.id);
+    const regionMeasurements = measurementsForWells(measurementStore, regionWells.map(w => w.id));
+    return runMeasurementQA(regionWells, regionMeasurements, qaOptionsForUnit(selectedRegion.lengthUnit));
+  }, [selectedRegion, wells, measurementStore]);
+
+  // Manual exclusions, plus every flagged measurement when requested
+  const effectiveExclusions = useMemo(() => {
+    if (!excludeFlagged) return excludedKeys;
+    const keys = new Set<string>(excludedKeys);
+    for (const key of qaFlags.keys()) keys.add(key);
+    return keys;
+  }, [excludedKeys, excludeFlagged, qaFlags]);
+
+  // Measurements used for mapping and analysis
+  const includedStore = useMemo(() =>
+    effectiveExclusions.size === 0 ? periodStore : filterMeasurementStore(periodStore, m => !effectiveExclusions.has(measurementKey(m))),
+  [periodStore, effectiveExclusions]);
+
+  const toggleExclusion = (key: string) => {
+    if (!selectedRegion) return;
+    const next = new Set<string>(excludedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExcludedKeys(next);
+    saveExclusions(selectedRegion.id, next);
+    // Imported regions keep them in their own exclusions.json too, so exports carry them
+    if (selectedRegion.imported) {
+      storeImportedExclusions(selectedRegion.id, next)
+        .catch(e => console.warn(`Could not store exclusions for ${selectedRegion.id}:`, e));
+    }
+  };
+
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+
+  // Download the hydrograph as an image (title, well IDs and legend drawn in) or its values as CSV
+  const exportHydrograph = async (format: 'png' | 'svg' | 'csv') => {
+    if (selectedWells.length === 0) return;
+    const fileBase = `hydrograph_${selectedWells.map(w => w.id).join('_')}`.replace(/[^A-Za-z0-9_-]/g, '_');
+
+    if (format === 'csv') {
+      // The same window and normalization as the chart on screen
+      const points = buildHydrographPoints(hydrographSeries, interpolationMethod, maxGapYears, effectiveExclusions, hydrographZoom);
+      const csv = hydrographToCsv(hydrographSeries, points, qaFlags, units, valueMode, normalization);
+      downloadBlob(new Blob([csv], { type: 'text/csv' }), `${fileBase}.csv`);
+      return;
+    }
+
+    if (!chartContainerRef.current) return;
+    const options: ChartExportOptions = {
+      title: `${valueMode === 'depth' ? 'Depth to Water' : 'Water Table Elevation'}: ${selectedWells.map(w => w.name).join(', ')}`,
+      subtitle: [
+        `Well ID: ${selectedWells.map(w => w.id).join(', ')}`,
+        selectedAquifer?.name,
+        selectedRegion?.name
+      ].filter(Boolean).join(' \u00b7 '),
+      legend: selectedWells.length > 1 ? selectedWells.map((w, i) => ({ label: w.name, color: seriesColor(i) })) : undefined
+    };
+    const ok = format === 'svg'
+      ? exportChartSvg(chartContainerRef.current, options, `${fileBase}.svg`)
+      : await exportChartPng(chartContainerRef.current, options, `${fileBase}.png`);
+    if (!ok) console.warn('Hydrograph export failed: no chart rendered');
+  };
+
+  const selectedWellFlagCount = useMemo(() =>
+    hydrographSeries.reduce((n, s) => n + s.measurements.filter(m => qaFlags.has(measurementKey(m))).length, 0),
+  [hydrographSeries, qaFlags]);
+
+  const aquiferMeasurements = useMemo(() =>
+    selectedAquifer ? measurementsForAquifer(includedStore, selectedAquifer.regionId, selectedAquifer.id) : [],
+  [selectedAquifer, includedStore]);
+
+  // Date span of the aquifer's record, used by the time slider
+  const aquiferDateRange = useMemo(() =>
+    wellsDateRange(includedStore, filteredWells.map(w => w.id)),
+  [includedStore, filteredWells]);
+
+  // Default the time slice date to the most recent measurement in the aquifer
+  useEffect(() => {
+    setSliceDate(aquiferDateRange?.end ?? '');
+    setManualVariogram(null);
+  }, [aquiferDateRange]);
+
+  // The time slice and its kriged surface run in the long-lived worker, which keeps the aquifer's
+  // measurements and cell mask between slider frames; moving the slider drops frames not yet started.
+  // The last result stays on screen until the next arrives, so playback does not flicker.
+  const [sliceResult, setSliceResult] = useState<{ aquifer: Aquifer; date: string; slices: WellSlice[] } | null>(null);
+  useEffect(() => {
+    if (!isTimeSliceEnabled || !selectedAquifer || !sliceDate) {
+      setSliceResult(null);
+      return;
+    }
+    const aquifer = selectedAquifer;
+    const date = sliceDate;
+    const controller = new AbortController();
+    runWorkerTask('timeSlice', { wells: filteredWells, measurements: aquiferMeasurements, date, maxGapDays }, {
+      signal: controller.signal, longLived: true
+    })
+      .then(slices => setSliceResult({ aquifer, date, slices }))
+      .catch(e => {
+        if (!isAbortError(e)) console.warn('Error computing time slice:', e);
+      });
+    return () => controller.abort();
+  }, [isTimeSliceEnabled, selectedAquifer, filteredWells, aquiferMeasurements, sliceDate, maxGapDays]);
+  const currentSlice = sliceResult && sliceResult.aquifer === selectedAquifer ? sliceResult : null;
+  const timeSlice = currentSlice?.slices ?? null;
+
+  // Trend fits run in a worker; a newer selection cancels the one in flight
+  const [wellTrends, setWellTrends] = useState<WellTrend[] | null>(null);
+  useEffect(() => {
+    setWellTrends(null);
+    if (!selectedAquifer) return;
+    const controller = new AbortController();
+    runWorkerTask('wellTrends', { wells: filteredWells, measurements: aquiferMeasurements }, { signal: controller.signal })
+      .then(setWellTrends)
+      .catch(e => {
+        if (!isAbortError(e)) console.warn('Error computing well trends:', e);
+      });
+    return () => controller.abort();
+  }, [selectedAquifer, filteredWells, aquiferMeasurements]);
+
+  const [surfaceResult, setSurfaceResult] = useState<{ aquifer: Aquifer; surface: WaterTableSurface | null } | null>(null);
+  const [isKriging, setIsKriging] = useState(false);
+  useEffect(() => {
+    if (!isSurfaceEnabled || !currentSlice) {
+      setSurfaceResult(null);
+      setIsKriging(false);
+      return;
+    }
+    const { aquifer, date, slices } = currentSlice;
+    const controller = new AbortController();
+    setIsKriging(true);
+    runWorkerTask('waterTableSurface', {
+      aquifer, slices, date, model: variogramModel, variogram: manualVariogram
+    }, { signal: controller.signal, longLived: true })
+      .then(surface => setSurfaceResult({ aquifer, surface }))
+      .catch(e => {
+        if (!isAbortError(e)) console.warn('Error kriging water table surface:', e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsKriging(false);
+      });
+    return () => controller.abort();
+  }, [isSurfaceEnabled, currentSlice, variogramModel, manualVariogram]);
+  const surface = surfaceResult && surfaceResult.aquifer === selectedAquifer ? surfaceResult.surface : null;
+
+  const showStoragePanel = isStoragePanelOpen && !!selectedAquifer && !!aquiferDateRange && !selectedWell;
+  const showCompositePanel = !!selectedAquifer && !!aquiferDateRange && !selectedWell && !showStoragePanel;
 
   // Loading state
   if (isLoading) {
@@ -92,19 +435,24 @@ const App: React.FC = () => {
       {/* Sidebar */}
       <Sidebar 
         regions={regions}
+        regionProgress={regionProgress}
         selectedRegion={selectedRegion}
         setSelectedRegion={(r) => {
           setSelectedRegion(r);
           setSelectedAquifer(null);
-          setSelectedWell(null);
+          setSelectedWells([]);
         }}
         aquifers={filteredAquifers}
         selectedAquifer={selectedAquifer}
         setSelectedAquifer={(a) => {
           setSelectedAquifer(a);
-          setSelectedWell(null);
+          setSelectedWells([]);
         }}
+        wells={filteredWells}
+        selectedWellIds={selectedWellIds}
+        onToggleWell={(w) => toggleWell(w, true)}
         openDataManager={() => setIsDataManagerOpen(true)}
+        onExportImported={exportImportedRegions}
       />
 
       {/* Main Content Area */}
@@ -117,7 +465,7 @@ const App: React.FC = () => {
               onClick={() => {
                 setSelectedRegion(null);
                 setSelectedAquifer(null);
-                setSelectedWell(null);
+                setSelectedWells([]);
               }}
               className="font-semibold text-slate-800 hover:text-blue-600 transition-colors"
             >
@@ -129,7 +477,7 @@ const App: React.FC = () => {
                 <button
                   onClick={() => {
                     setSelectedAquifer(null);
-                    setSelectedWell(null);
+                    setSelectedWells([]);
                   }}
                   className="hover:text-blue-600 transition-colors"
                 >
@@ -141,7 +489,7 @@ const App: React.FC = () => {
               <>
                 <ChevronRight size={14} className="text-slate-400" />
                 <button
-                  onClick={() => setSelectedWell(null)}
+                  onClick={() => setSelectedWells([])}
                   className="hover:text-blue-600 transition-colors"
                 >
                   {selectedAquifer.name}
@@ -151,17 +499,65 @@ const App: React.FC = () => {
             {selectedWell && (
               <>
                 <ChevronRight size={14} className="text-slate-400" />
-                <span className="font-medium text-blue-600">{selectedWell.name}</span>
+                <span className="font-medium text-blue-600">
+                  {selectedWells.length > 1 ? `${selectedWells.length} wells` : selectedWell.name}
+                </span>
               </>
             )}
           </div>
-          <button 
-            onClick={() => setIsDataManagerOpen(true)}
-            className="flex items-center space-x-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors"
-          >
-            <Database size={16} />
-            <span>Manage Data</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            <DateRangeFilter range={dateFilter} onChange={setDateFilter} />
+            <div className="flex items-center bg-slate-100 rounded-md p-0.5 text-xs font-medium">
+              {([['wte', 'Elevation'], ['depth', 'Depth to Water']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setValueMode(mode)}
+                  className={`px-2 py-1 rounded ${valueMode === mode ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center bg-slate-100 rounded-md p-0.5 text-xs font-medium" title="Display units">
+              {LENGTH_UNITS.map(u => (
+                <button
+                  key={u.value}
+                  onClick={() => setDisplayUnit(u.value)}
+                  className={`px-2 py-1 rounded ${displayUnit === u.value ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {u.value}
+                </button>
+              ))}
+            </div>
+            {selectedAquifer && (
+              <button
+                onClick={() => setIsTrendTableOpen(true)}
+                className="flex items-center space-x-2 px-3 py-1.5 bg-rose-50 text-rose-700 rounded-md text-sm font-medium hover:bg-rose-100 transition-colors"
+              >
+                <TrendingDown size={16} />
+                <span>Trends</span>
+              </button>
+            )}
+            {selectedAquifer && (
+              <button
+                onClick={() => {
+                  setSelectedWells([]);
+                  setIsStoragePanelOpen(true);
+                }}
+                className="flex items-center space-x-2 px-3 py-1.5 bg-cyan-50 text-cyan-700 rounded-md text-sm font-medium hover:bg-cyan-100 transition-colors"
+              >
+                <BarChart3 size={16} />
+                <span>Storage Change</span>
+              </button>
+            )}
+            <button 
+              onClick={() => setIsDataManagerOpen(true)}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors"
+            >
+              <Database size={16} />
+              <span>Manage Data</span>
+            </button>
+          </div>
         </header>
 
         {/* Map and Chart Split View */}
@@ -170,37 +566,205 @@ const App: React.FC = () => {
             <MapView
               regions={regions}
               aquifers={filteredAquifers}
-              wells={filteredWells}
-              measurements={measurements}
+              wells={mapWells}
+              wellSummaries={includedStore.summaries}
+              units={units}
+              showAllWells={showAllWells}
+              onToggleAllWells={() => setShowAllWells(!showAllWells)}
               selectedRegion={selectedRegion}
               selectedAquifer={selectedAquifer}
+              surface={surface}
+              timeSlice={timeSlice}
+              valueMode={valueMode}
+              trends={wellTrends}
               onRegionClick={(r) => {
                 setSelectedRegion(r);
                 setSelectedAquifer(null);
-                setSelectedWell(null);
+                setSelectedWells([]);
               }}
               onAquiferClick={setSelectedAquifer}
-              onWellClick={setSelectedWell}
+              selectedWellIds={selectedWellIds}
+              onWellClick={toggleWell}
             />
+            {selectedAquifer && (
+              <div className="absolute bottom-6 left-3 z-[1000] space-y-2">
+                <TimeSlicePanel
+                  enabled={isTimeSliceEnabled}
+                  onToggle={setIsTimeSliceEnabled}
+                  date={sliceDate}
+                  onDateChange={setSliceDate}
+                  maxGapDays={maxGapDays}
+                  onMaxGapDaysChange={setMaxGapDays}
+                  slices={timeSlice}
+                  onShowTable={() => setIsSliceTableOpen(true)}
+                />
+                {isTimeSliceEnabled && (
+                  <SurfacePanel
+                    enabled={isSurfaceEnabled}
+                    onToggle={setIsSurfaceEnabled}
+                    model={variogramModel}
+                    onModelChange={setVariogramModel}
+                    manualVariogram={manualVariogram}
+                    onManualVariogramChange={setManualVariogram}
+                    surface={surface}
+                    isComputing={isKriging}
+                  />
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Time Slider (replays the time slice through the record) */}
+          {isTimeSliceEnabled && aquiferDateRange && (
+            <TimeSlider
+              startDate={aquiferDateRange.start}
+              endDate={aquiferDateRange.end}
+              date={sliceDate}
+              onDateChange={setSliceDate}
+            />
+          )}
+
           {/* Time Series Section */}
-          <div className={`transition-all duration-300 ease-in-out border-t border-slate-200 bg-white ${selectedWell ? 'h-1/3' : 'h-0 overflow-hidden'}`}>
+          <div className={`transition-all duration-300 ease-in-out border-t border-slate-200 bg-white ${selectedWell || showStoragePanel || showCompositePanel ? 'h-1/3' : 'h-0 overflow-hidden'}`}>
+            {showStoragePanel && selectedAquifer && aquiferDateRange && (
+              <div className="p-4 h-full flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <BarChart3 size={18} className="text-cyan-600" />
+                    <h3 className="font-bold text-slate-800">Cumulative Storage Change: {selectedAquifer.name}</h3>
+                  </div>
+                  <button
+                    onClick={() => setIsStoragePanelOpen(false)}
+                    className="p-1 hover:bg-slate-100 rounded-full text-slate-400"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <StoragePanel
+                    aquifer={selectedAquifer}
+                    wells={filteredWells}
+                    measurements={aquiferMeasurements}
+                    startDate={aquiferDateRange.start}
+                    endDate={aquiferDateRange.end}
+                    variogramModel={variogramModel}
+                    maxGapDays={maxGapDays}
+                    lengthUnit={selectedRegion?.lengthUnit ?? 'ft'}
+                    displayUnit={displayUnit}
+                  />
+                </div>
+              </div>
+            )}
+            {showCompositePanel && selectedAquifer && aquiferDateRange && (
+              <div className="p-4 h-full flex flex-col">
+                <div className="flex items-center space-x-2 mb-2">
+                  <Activity size={18} className="text-blue-500" />
+                  <h3 className="font-bold text-slate-800">
+                    Aquifer Composite {valueMode === 'depth' ? 'Depth to Water' : 'Water Table Elevation'}: {selectedAquifer.name}
+                  </h3>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <CompositePanel
+                    aquifer={selectedAquifer}
+                    wells={filteredWells}
+                    measurements={aquiferMeasurements}
+                    startDate={aquiferDateRange.start}
+                    endDate={aquiferDateRange.end}
+                    mode={valueMode}
+                    maxGapDays={maxGapDays}
+                    units={units}
+                  />
+                </div>
+              </div>
+            )}
             {selectedWell && (
               <div className="p-4 h-full flex flex-col">
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center space-x-2">
                     <Activity size={18} className="text-blue-500" />
-                    <h3 className="font-bold text-slate-800">Water Table Elevation: {selectedWell.name}</h3>
+                    <h3 className="font-bold text-slate-800">
+                      {valueMode === 'depth' ? 'Depth to Water' : 'Water Table Elevation'}: {selectedWells.length > 1 ? `${selectedWells.length} wells` : selectedWell.name}
+                    </h3>
                   </div>
-                  <div className="text-xs text-slate-500 uppercase tracking-wider font-semibold">
-                    Units: Feet (WTE)
+                  <div className="flex items-center space-x-3">
+                    <select
+                      value={interpolationMethod}
+                      onChange={(e) => setInterpolationMethod(e.target.value as InterpolationMethod)}
+                      className="px-2 py-1 border border-slate-300 rounded text-xs"
+                      title="Interpolation method"
+                    >
+                      {INTERPOLATION_METHODS.map(m => (
+                        <option key={m.value} value={m.value}>{m.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={maxGapYears === null ? '' : String(maxGapYears)}
+                      onChange={(e) => setMaxGapYears(e.target.value ? parseFloat(e.target.value) : null)}
+                      className="px-2 py-1 border border-slate-300 rounded text-xs"
+                      title="Break the curve across gaps longer than this"
+                    >
+                      {MAX_GAP_OPTIONS.map(o => (
+                        <option key={o.label} value={o.years === null ? '' : String(o.years)}>{o.label}</option>
+                      ))}
+                    </select>
+                    {selectedWellFlagCount > 0 && (
+                      <span className="text-xs text-amber-600 font-medium">
+                        {selectedWellFlagCount} flagged
+                      </span>
+                    )}
+                    <label className="flex items-center space-x-1 text-xs text-slate-600" title="Leave all QA-flagged measurements out of the curve and analyses">
+                      <input
+                        type="checkbox"
+                        checked={excludeFlagged}
+                        onChange={(e) => setExcludeFlagged(e.target.checked)}
+                      />
+                      <span>Exclude flagged</span>
+                    </label>
+                    <select
+                      value={normalization}
+                      onChange={(e) => setNormalization(e.target.value as SeriesNormalization)}
+                      className="px-2 py-1 border border-slate-300 rounded text-xs"
+                      title="Subtract an offset from each series to compare their shapes"
+                    >
+                      <option value="none">Absolute values</option>
+                      <option value="mean">Minus well mean</option>
+                      <option value="first">Minus first value</option>
+                    </select>
+                    {selectedWells.some(w => !hasValidGse(w)) && (
+                      <span className="text-xs text-amber-600 font-medium">Ground surface elevation missing</span>
+                    )}
+                    <div className="text-xs text-slate-500 uppercase tracking-wider font-semibold">
+                      Units: {LENGTH_UNITS.find(u => u.value === units.unit)!.label} ({valueMode === 'depth' ? 'Depth' : 'WTE'})
+                      {selectedRegion && ` \u00b7 ${selectedRegion.verticalDatum || 'Datum not specified'}`}
+                    </div>
+                    <div className="flex items-center bg-slate-100 rounded-md p-0.5 text-xs font-medium">
+                      {(['png', 'svg', 'csv'] as const).map(format => (
+                        <button
+                          key={format}
+                          onClick={() => exportHydrograph(format)}
+                          className="flex items-center space-x-1 px-2 py-1 rounded text-slate-600 hover:bg-white hover:text-blue-700"
+                          title={`Download ${format === 'csv' ? 'measured and interpolated values' : 'chart'} as ${format.toUpperCase()}`}
+                        >
+                          <Download size={12} />
+                          <span>{format.toUpperCase()}</span>
+                        </button>
+                      ))}
+                    </div>
                   </div>
                 </div>
-                <div className="flex-1 min-h-0">
+                <div ref={chartContainerRef} className="flex-1 min-h-0">
                   <TimeSeriesChart 
-                    measurements={selectedWellMeasurements}
-                    wellName={selectedWell.name}
+                    series={hydrographSeries}
+                    mode={valueMode}
+                    method={interpolationMethod}
+                    maxGapYears={maxGapYears}
+                    normalization={normalization}
+                    flags={qaFlags}
+                    excluded={effectiveExclusions}
+                    units={units}
+                    zoom={hydrographZoom}
+                    onZoomChange={setHydrographZoom}
+                    onToggleExclude={toggleExclusion}
                   />
                 </div>
               </div>
@@ -209,15 +773,42 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      {/* Time Slice Table Overlay */}
+      {isSliceTableOpen && timeSlice && selectedAquifer && (
+        <TimeSliceTable
+          slices={timeSlice}
+          date={sliceDate}
+          aquiferName={selectedAquifer.name}
+          units={units}
+          onClose={() => setIsSliceTableOpen(false)}
+        />
+      )}
+
+      {/* Trend Table Overlay */}
+      {isTrendTableOpen && wellTrends && selectedAquifer && (
+        <TrendTable
+          trends={wellTrends}
+          aquiferName={selectedAquifer.name}
+          units={units}
+          onSelectWell={(wellId) => {
+            const well = filteredWells.find(w => w.id === wellId);
+            if (well) setSelectedWells([well]);
+            setIsTrendTableOpen(false);
+          }}
+          onClose={() => setIsTrendTableOpen(false)}
+        />
+      )}
+
       {/* Data Management Overlay */}
       {isDataManagerOpen && (
         <DataManager
           onClose={() => setIsDataManagerOpen(false)}
-          onUpdateRegions={setRegions}
-          onUpdateAquifers={setAquifers}
-          onUpdateWells={setWells}
-          onUpdateMeasurements={setMeasurements}
-          existingRegions={regions.map(r => r.id)}
+          onUpdateRegions={addImportedRegions}
+          onUpdateAquifers={added => setAquifers(prev => [...prev, ...added])}
+          onUpdateWells={added => setWells(prev => [...prev, ...added])}
+          onUpdateMeasurements={added => setMeasurements(prev => [...prev, ...added])}
+          existingRegions={regions}
+          onApplyRegionChanges={applyRegionChanges}
         />
       )}
     </div>
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ComposedChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { Aquifer, Well, Measurement, CompositeWeighting, CompositePoint } from '../types';
+import { runWorkerTask, isAbortError } from '../services/workerClient';
+import { buildTimeSteps, TimeStepUnit } from '../utils/dates';
+import { ValueMode } from '../utils/wells';
+import { DisplayUnits } from '../utils/units';
+
+interface CompositePanelProps {
+  aquifer: Aquifer;
+  wells: Well[];
+  measurements: Measurement[];
+  startDate: string;
+  endDate: string;
+  mode: ValueMode;
+  maxGapDays: number;
+  units: DisplayUnits;
+}
+
+const CompositePanel: React.FC<CompositePanelProps> = ({
+  aquifer,
+  wells,
+  measurements,
+  startDate,
+  endDate,
+  mode,
+  maxGapDays,
+  units
+}) => {
+  const [weighting, setWeighting] = useState<CompositeWeighting>('area');
+  const [stepUnit, setStepUnit] = useState<TimeStepUnit>('year');
+
+  // Computed in a worker; changing any input cancels the run in progress
+  const [points, setPoints] = useState<CompositePoint[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const steps = buildTimeSteps(startDate, endDate, stepUnit);
+    setProgress({ done: 0, total: steps.length });
+    runWorkerTask('compositeHydrograph', { aquifer, wells, measurements, steps, weighting, maxGapDays }, {
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress({ done, total })
+    })
+      .then(result => {
+        setPoints(result);
+        setProgress(null);
+      })
+      .catch(e => {
+        if (isAbortError(e)) return;
+        console.warn('Error computing composite hydrograph:', e);
+        setPoints([]);
+        setProgress(null);
+      });
+    return () => controller.abort();
+  }, [aquifer, wells, measurements, startDate, endDate, stepUnit, weighting, maxGapDays]);
+
+  const chartData = useMemo(() =>
+    points.map(p => {
+      const value = mode === 'depth' ? p.depth : p.wte;
+      return { ...p, date: new Date(p.date).getTime(), value: value === null ? null : value * units.factor };
+    }),
+  [points, mode, units]);
+
+  const valueLabel = mode === 'depth' ? 'Depth to water' : 'Elevation';
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center space-x-4 mb-2 text-xs">
+        <select
+          value={weighting}
+          onChange={(e) => setWeighting(e.target.value as CompositeWeighting)}
+          className="px-2 py-1 border border-slate-300 rounded"
+        >
+          <option value="area">Area-weighted (Thiessen)</option>
+          <option value="mean">Unweighted mean</option>
+        </select>
+        <select
+          value={stepUnit}
+          onChange={(e) => setStepUnit(e.target.value as TimeStepUnit)}
+          className="px-2 py-1 border border-slate-300 rounded"
+        >
+          <option value="year">Yearly steps</option>
+          <option value="month">Monthly steps</option>
+        </select>
+        <span className="text-slate-400">Bars: contributing wells</span>
+        {progress && (
+          <span className="text-slate-400 italic">
+            Computing... {progress.done} / {progress.total} steps
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {chartData.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="date"
+                type="number"
+                domain={['auto', 'auto']}
+                tickFormatter={(t) => String(new Date(t).getFullYear())}
+                stroke="#94a3b8"
+                fontSize={11}
+              />
+              <YAxis
+                yAxisId="value"
+                domain={['auto', 'auto']}
+                reversed={mode === 'depth'}
+                stroke="#94a3b8"
+                fontSize={11}
+                tickFormatter={(val) => Number(val).toFixed(1)}
+                label={{ value: `${mode === 'depth' ? 'Depth' : 'WTE'} (${units.unit})`, angle: -90, position: 'insideLeft', offset: -5, style: { fill: '#94a3b8', fontSize: 11 } }}
+              />
+              <YAxis yAxisId="count" orientation="right" allowDecimals={false} stroke="#cbd5e1" fontSize={11} />
+              <Tooltip
+                labelFormatter={(label) => new Date(label).toLocaleDateString()}
+                formatter={(value: number, name) => name === 'wellCount'
+                  ? [value, 'Contributing wells']
+                  : [`${value.toFixed(2)} ${units.unit}`, valueLabel]}
+                contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Bar yAxisId="count" dataKey="wellCount" fill="#e2e8f0" barSize={6} animationDuration={400} />
+              <Line yAxisId="value" type="linear" dataKey="value" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} connectNulls={false} animationDuration={400} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center bg-slate-50 text-slate-400 text-sm italic">
+            {progress ? 'Computing composite hydrograph...' : 'No wells with usable data at any time step.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompositePanel;
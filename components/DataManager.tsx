@@ -1,36 +1,53 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { X, Upload, FileText, CheckCircle2, AlertCircle, ChevronRight, ChevronLeft, Download, MapPin, Droplets, Layers } from 'lucide-react';
 import { Region, Aquifer, Well, Measurement } from '../types';
-import shp from 'shpjs';
-import JSZip from 'jszip';
+import { LengthUnit, LENGTH_UNITS } from '../utils/units';
+import { looksLikeExcelSerials, normalizeDate } from '../utils/dates';
+import { WGS84, crsLabel, crsOptions, reprojectGeoJSON } from '../utils/crs';
+import {
+  ColumnMapping, ImportFile, ImportFileType, ValidationResult, getRequiredColumns, wellPositions
+} from '../services/importValidation';
+import { runWorkerTask, isAbortError } from '../services/workerClient';
+import { isLayerFileName, readLayerFile, standardAquiferLayer, standardRegionLayer } from '../services/layerFiles';
+import { SheetTable, isSpreadsheetFileName } from '../services/spreadsheet';
+import { ImportedRegion, buildRegionZip, getImportedRegion, saveImportedRegion } from '../services/importedRegions';
+import {
+  clearRegionDataCache, loadRegionData, loadRegionFiles, loadRegionManifest, parseMeasurements, parseWells, regionFromImport,
+  setSessionRegionFiles
+} from '../services/dataLoader';
+import { RegionMergeResult } from '../services/regionUpdate';
+import { regionIdError, regionNameError as nameError } from '../services/regionManagement';
+import {
+  DATA_FORMAT_LABELS, DataFormat, detectDataFormat, elevationFromDepth, guessColumnMapping, uniqueSites
+} from '../services/groundwaterFormats';
+import RegionManager from './RegionManager';
+import { downloadBlob } from '../utils/download';
+import { describeCsvErrors, formatCsv, parseCsv } from '../utils/csv';
 
 interface DataManagerProps {
   onClose: () => void;
+  // Called with the contents of a newly imported region, to add to the app's data
   onUpdateRegions: (r: Region[]) => void;
   onUpdateAquifers: (a: Aquifer[]) => void;
   onUpdateWells: (w: Well[]) => void;
   onUpdateMeasurements: (m: Measurement[]) => void;
-  existingRegions: string[]; // List of existing region folder names
-}
-
-interface ColumnMapping {
-  [targetColumn: string]: string; // targetColumn -> sourceColumn
+  existingRegions: Region[]; // Regions already loaded, for name checks, updates and management
+  // Called after regions are renamed, reordered, edited or deleted (see RegionManager)
+  onApplyRegionChanges: (regions: Region[], stale: string[]) => void;
 }
 
 interface UploadedFile {
   name: string;
-  data: any; // Parsed data (GeoJSON or CSV rows)
+  data: any; // Parsed data (GeoJSON, or CSV or worksheet rows)
   columns: string[]; // Available columns
   mapping: ColumnMapping;
-  type: 'geojson' | 'csv';
-}
-
-interface ValidationResult {
-  isValid: boolean;
-  errors: string[];
-  warnings: string[];
-  droppedMeasurements: number;
+  type: 'geojson' | 'csv'; // Worksheets are tables like CSVs
+  crs?: string; // Coordinate system of the uploaded coordinates (EPSG code or .prj WKT)
+  source?: any; // GeoJSON as uploaded; `data` holds it reprojected to WGS 84
+  format?: DataFormat; // Recognised layout of a CSV, e.g. a USGS NWIS download
+  sheets?: SheetTable[]; // Worksheets with data, for a spreadsheet
+  sheet?: string; // Worksheet in `data`
 }
 
 const DATE_FORMATS = [
@@ -39,6 +56,7 @@ const DATE_FORMATS = [
   { label: 'DD/MM/YYYY (15/01/2024)', value: 'eu' },
   { label: 'M/D/YYYY (1/15/2024)', value: 'us-short' },
   { label: 'D/M/YYYY (15/1/2024)', value: 'eu-short' },
+  { label: 'Excel serial number (45306)', value: 'excel' },
 ];
 
 const DataManager: React.FC<DataManagerProps> = ({
@@ -47,11 +65,21 @@ const DataManager: React.FC<DataManagerProps> = ({
   onUpdateAquifers,
   onUpdateWells,
   onUpdateMeasurements,
-  existingRegions = []
+  existingRegions = [],
+  onApplyRegionChanges
 }) => {
+  // Import wizard, or the region management screen
+  const [view, setView] = useState<'import' | 'manage'>('import');
   const [step, setStep] = useState(1);
+
+  // Create a new region, or add wells and water levels to an existing one
+  const [mode, setMode] = useState<'create' | 'update'>('create');
+  const [updateRegionId, setUpdateRegionId] = useState('');
+  const [updateReport, setUpdateReport] = useState<RegionMergeResult | null>(null);
   const [regionName, setRegionName] = useState('');
   const [regionNameError, setRegionNameError] = useState('');
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('ft');
+  const [verticalDatum, setVerticalDatum] = useState('');
 
   const [regionFile, setRegionFile] = useState<UploadedFile | null>(null);
   const [aquiferFile, setAquiferFile] = useState<UploadedFile | null>(null);
@@ -66,6 +94,32 @@ const DataManager: React.FC<DataManagerProps> = ({
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  // Background parsing and validation, with progress and a way to cancel
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Run a worker task for the current step; a newer task or Cancel aborts it
+  const runTask = <T,>(label: string, start: (options: { signal: AbortSignal; onProgress: (done: number, total: number) => void }) => Promise<T>): Promise<T> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ label, done: 0, total: 0 });
+    return start({
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress({ label, done, total })
+    }).finally(() => {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    });
+  };
+
+  const cancelTask = () => abortRef.current?.abort();
+
+  // Closing the dialog stops any task still running
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const addLog = (msg: string, type: 'info'|'success'|'error'|'warning' = 'info') => {
     setLogs(prev => [...prev, { msg, type }]);
   };
@@ -77,81 +131,68 @@ const DataManager: React.FC<DataManagerProps> = ({
 
   // Validate region name
   const validateRegionName = (name: string) => {
-    if (!name.trim()) {
-      setRegionNameError('Region name is required');
-      return false;
-    }
-    const folderName = getFolderName(name);
-    if (existingRegions.includes(folderName)) {
-      setRegionNameError(`A region with folder name "${folderName}" already exists`);
-      return false;
-    }
-    setRegionNameError('');
-    return true;
+    const error = nameError(name, existingRegions.map(r => r.name)) ??
+      regionIdError(getFolderName(name), existingRegions.map(r => r.id));
+    setRegionNameError(error ?? '');
+    return !error;
   };
 
-  // Parse CSV text into rows
-  const parseCSV = (text: string): { headers: string[]; rows: Record<string, string>[] } => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length < 1) return { headers: [], rows: [] };
-
-    const delimiter = lines[0].includes('\t') ? '\t' : ',';
-    const headers = lines[0].split(delimiter).map(h => h.trim());
-
-    const rows = lines.slice(1).map(line => {
-      const values = line.split(delimiter);
-      const row: Record<string, string> = {};
-      headers.forEach((h, i) => { row[h] = values[i]?.trim() || ''; });
-      return row;
-    });
-
-    return { headers, rows };
+  // GeoJSON layer reprojected from `crs` to WGS 84
+  const geojsonFile = (name: string, source: any, crs: string): UploadedFile => {
+    const features = source.type === 'FeatureCollection' ? source.features : [source];
+    return {
+      name,
+      data: reprojectGeoJSON(source, crs),
+      columns: features.length > 0 ? Object.keys(features[0].properties || {}) : [],
+      mapping: {},
+      type: 'geojson',
+      crs,
+      source
+    };
   };
 
-  // Parse date based on format
-  const parseDate = (dateStr: string, format: string): string => {
-    if (!dateStr) return '';
-
-    let parts: string[];
-    let year: string, month: string, day: string;
+  // One worksheet of a spreadsheet, as a table like a CSV
+  const sheetFile = (name: string, sheets: SheetTable[], sheet: SheetTable, fileType: ImportFileType): UploadedFile => ({
+    name,
+    data: sheet.rows,
+    columns: sheet.headers,
+    mapping: guessColumnMapping(sheet.headers, fileType),
+    type: 'csv',
+    crs: fileType === 'wells' ? WGS84 : undefined,
+    format: detectDataFormat(sheet.headers) ?? undefined,
+    sheets,
+    sheet: sheet.name
+  });
+
+  const logSheet = (sheet: SheetTable) => {
+    addLog(`Loaded sheet "${sheet.name}" with ${sheet.rows.length} rows and ${sheet.headers.length} columns`, 'success');
+    if (sheet.headerRow > 1) addLog(`Column names taken from row ${sheet.headerRow}; the rows above were skipped`, 'info');
+  };
 
-    try {
-      switch (format) {
-        case 'iso':
-          // YYYY-MM-DD
-          parts = dateStr.split('-');
-          if (parts.length === 3) {
-            return dateStr; // Already in ISO format
-          }
-          break;
-        case 'us':
-        case 'us-short':
-          // MM/DD/YYYY or M/D/YYYY
-          parts = dateStr.split('/');
-          if (parts.length === 3) {
-            month = parts[0].padStart(2, '0');
-            day = parts[1].padStart(2, '0');
-            year = parts[2].length === 2 ? '20' + parts[2] : parts[2];
-            return `${year}-${month}-${day}`;
-          }
-          break;
-        case 'eu':
-        case 'eu-short':
-          // DD/MM/YYYY or D/M/YYYY
-          parts = dateStr.split('/');
-          if (parts.length === 3) {
-            day = parts[0].padStart(2, '0');
-            month = parts[1].padStart(2, '0');
-            year = parts[2].length === 2 ? '20' + parts[2] : parts[2];
-            return `${year}-${month}-${day}`;
-          }
-          break;
-      }
-    } catch (e) {
-      // Fall through to return original
+  // Dates Excel stores as numbers, e.g. in cells formatted as General, are read as serial numbers
+  const detectExcelDates = (file: UploadedFile) => {
+    const dateCol = file.mapping['date'];
+    if (!dateCol) return;
+    const sample = (file.data as Record<string, string>[]).slice(0, 100).map(row => row[dateCol]).filter(Boolean);
+    if (looksLikeExcelSerials(sample)) {
+      setDateFormat('excel');
+      addLog(`Dates in ${dateCol} are Excel serial numbers; date format set to match`, 'info');
     }
+  };
 
-    return dateStr; // Return original if parsing fails
+  // Switch a spreadsheet upload to another of its worksheets
+  const selectSheet = (fileType: 'wells' | 'waterLevels', sheetName: string) => {
+    const file = fileType === 'wells' ? wellsFile : waterLevelsFile;
+    const sheet = file?.sheets?.find(s => s.name === sheetName);
+    if (!file || !sheet) return;
+
+    const next = sheetFile(file.name, file.sheets!, sheet, fileType);
+    if (fileType === 'wells') setWellsFile(next);
+    else setWaterLevelsFile(next);
+    logSheet(sheet);
+    if (fileType === 'waterLevels') detectExcelDates(next);
+    setCurrentMappingFile(fileType);
+    setShowColumnMapper(true);
   };
 
   // Handle file upload
@@ -166,53 +207,57 @@ const DataManager: React.FC<DataManagerProps> = ({
     setIsProcessing(true);
 
     try {
-      const isZip = file.name.endsWith('.zip');
-      const isGeoJSON = file.name.endsWith('.geojson') || file.name.endsWith('.json');
-      const isCSV = file.name.endsWith('.csv') || file.name.endsWith('.txt');
+      const isLayer = isLayerFileName(file.name);
+      const isCSV = /\.(csv|txt|tsv|rdb)$/i.test(file.name);
+      const isSpreadsheet = isSpreadsheetFileName(file.name);
 
       let uploadedFile: UploadedFile;
 
-      if (isZip) {
-        // Shapefile in zip - convert to GeoJSON
-        const buffer = await file.arrayBuffer();
-        const geojson = await shp(buffer);
-        const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
-        const columns = features.length > 0 ? Object.keys(features[0].properties || {}) : [];
-
-        uploadedFile = {
-          name: file.name,
-          data: geojson,
-          columns,
-          mapping: {},
-          type: 'geojson'
-        };
-        addLog(`Converted shapefile to GeoJSON with ${features.length} features`, 'success');
-      } else if (isGeoJSON) {
-        const text = await file.text();
-        const geojson = JSON.parse(text);
-        const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
-        const columns = features.length > 0 ? Object.keys(features[0].properties || {}) : [];
-
-        uploadedFile = {
-          name: file.name,
-          data: geojson,
-          columns,
-          mapping: {},
-          type: 'geojson'
-        };
-        addLog(`Loaded GeoJSON with ${features.length} features`, 'success');
+      if (isLayer) {
+        // GeoJSON or zipped shapefile, reprojected from the coordinate system it names
+        const layer = await runTask(`Reading ${file.name}`, options => readLayerFile(file, options));
+        for (const note of layer.notes) addLog(note.msg, note.type);
+        uploadedFile = geojsonFile(file.name, layer.source, layer.crs);
       } else if (isCSV) {
-        const text = await file.text();
-        const { headers, rows } = parseCSV(text);
+        const buffer = await file.arrayBuffer();
+        const { headers, rows, delimiter, encoding, errors, format, decimalCommas } = await runTask(`Parsing ${file.name}`, options =>
+          runWorkerTask('readCsv', { buffer }, { ...options, transfer: [buffer] }));
+
+        if (format === 'rdb') {
+          addLog('Read as USGS RDB (tab-delimited, comment header and column format row skipped)', 'info');
+        } else if (delimiter !== ',' || encoding !== 'utf-8') {
+          const delimiterName = { ',': 'comma', '\t': 'tab', ';': 'semicolon', '|': 'pipe' }[delimiter];
+          addLog(`Read as ${delimiterName}-delimited ${encoding.toUpperCase()} text`, 'info');
+        }
+        if (decimalCommas > 0) addLog(`Read ${decimalCommas} numbers written with a decimal comma (e.g. 12,5 as 12.5)`, 'info');
+        if (errors.length > 0) {
+          addLog(`${errors.length} malformed records in ${file.name}:`, 'warning');
+          for (const line of describeCsvErrors(errors)) addLog(line, 'warning');
+        }
 
         uploadedFile = {
           name: file.name,
           data: rows,
           columns: headers,
           mapping: {},
-          type: 'csv'
+          type: 'csv',
+          crs: fileType === 'wells' ? WGS84 : undefined,
+          format: detectDataFormat(headers) ?? undefined
         };
         addLog(`Loaded CSV with ${rows.length} rows and ${headers.length} columns`, 'success');
+        if (uploadedFile.format) addLog(`Recognised a ${DATA_FORMAT_LABELS[uploadedFile.format]}; columns mapped automatically`, 'info');
+      } else if (isSpreadsheet && (fileType === 'wells' || fileType === 'waterLevels')) {
+        // Excel workbook: each worksheet is a table; the first with data is used until another is picked
+        const buffer = await file.arrayBuffer();
+        const workbook = await runTask(`Reading ${file.name}`, options =>
+          runWorkerTask('readWorkbook', { buffer }, { ...options, transfer: [buffer] }));
+        const sheets = workbook.filter(sheet => sheet.rows.length > 0);
+        if (sheets.length === 0) throw new Error(`no worksheet in ${file.name} has data below its column names`);
+
+        uploadedFile = sheetFile(file.name, sheets, sheets[0], fileType);
+        logSheet(sheets[0]);
+        if (sheets.length > 1) addLog(`${file.name} has ${sheets.length} sheets with data; pick another below if needed`, 'info');
+        if (uploadedFile.format) addLog(`Recognised a ${DATA_FORMAT_LABELS[uploadedFile.format]}; columns mapped automatically`, 'info');
       } else {
         addLog(`Unsupported file type: ${file.name}`, 'error');
         setIsProcessing(false);
@@ -220,7 +265,7 @@ const DataManager: React.FC<DataManagerProps> = ({
       }
 
       // Auto-map columns if possible
-      uploadedFile.mapping = autoMapColumns(uploadedFile.columns, fileType);
+      uploadedFile.mapping = guessColumnMapping(uploadedFile.columns, fileType);
 
       // Set the file
       switch (fileType) {
@@ -235,6 +280,7 @@ const DataManager: React.FC<DataManagerProps> = ({
           break;
         case 'waterLevels':
           setWaterLevelsFile(uploadedFile);
+          detectExcelDates(uploadedFile);
           break;
       }
 
@@ -244,90 +290,66 @@ const DataManager: React.FC<DataManagerProps> = ({
         setShowColumnMapper(true);
       }
     } catch (err) {
-      addLog(`Failed to process file: ${err}`, 'error');
+      if (isAbortError(err)) addLog(`Cancelled loading ${file.name}`, 'warning');
+      else addLog(`Failed to process file: ${err}`, 'error');
     }
 
+    // Allow choosing the same file again after a cancel or failure
+    e.target.value = '';
     setIsProcessing(false);
   };
 
-  // Auto-map columns based on common names
-  const autoMapColumns = (columns: string[], fileType: string): ColumnMapping => {
-    const mapping: ColumnMapping = {};
-    const lowerColumns = columns.map(c => c.toLowerCase());
-
-    if (fileType === 'region') {
-      // No mapping needed - region name is entered manually
-    } else if (fileType === 'aquifer') {
-      const idIdx = lowerColumns.findIndex(c =>
-        c.includes('aquifer') && c.includes('id') || c === 'aquifer_id' || c === 'id'
-      );
-      const nameIdx = lowerColumns.findIndex(c =>
-        (c.includes('aquifer') && c.includes('name')) || c === 'aquifer_name' || c === 'name' || c === 'full_name'
-      );
-      if (idIdx >= 0) mapping['aquifer_id'] = columns[idIdx];
-      if (nameIdx >= 0) mapping['aquifer_name'] = columns[nameIdx];
-    } else if (fileType === 'wells') {
-      const wellIdIdx = lowerColumns.findIndex(c => c.includes('well') && c.includes('id') || c === 'well_id');
-      const latIdx = lowerColumns.findIndex(c => c === 'lat' || c.includes('latitude') || c === 'lat_dec');
-      const longIdx = lowerColumns.findIndex(c => c === 'long' || c === 'lng' || c.includes('longitude') || c === 'long_dec');
-      const aqIdIdx = lowerColumns.findIndex(c => c.includes('aquifer') && c.includes('id') || c === 'aquifer_id');
-
-      if (wellIdIdx >= 0) mapping['well_id'] = columns[wellIdIdx];
-      if (latIdx >= 0) mapping['lat'] = columns[latIdx];
-      if (longIdx >= 0) mapping['long'] = columns[longIdx];
-      if (aqIdIdx >= 0) mapping['aquifer_id'] = columns[aqIdIdx];
-    } else if (fileType === 'waterLevels') {
-      const wellIdIdx = lowerColumns.findIndex(c => c.includes('well') && c.includes('id') || c === 'well_id');
-      const dateIdx = lowerColumns.findIndex(c => c === 'date' || c.includes('date'));
-      const wteIdx = lowerColumns.findIndex(c => c === 'wte' || c.includes('elevation') || c.includes('level'));
-      const aqIdIdx = lowerColumns.findIndex(c => c.includes('aquifer') && c.includes('id') || c === 'aquifer_id');
-
-      if (wellIdIdx >= 0) mapping['well_id'] = columns[wellIdIdx];
-      if (dateIdx >= 0) mapping['date'] = columns[dateIdx];
-      if (wteIdx >= 0) mapping['wte'] = columns[wteIdx];
-      if (aqIdIdx >= 0) mapping['aquifer_id'] = columns[aqIdIdx];
-    }
-
-    return mapping;
+  // A long table provides both files: its distinct sites are the wells, its rows the water levels
+  const splitLongFormat = () => {
+    if (!wellsFile) return;
+    const rows = wellsFile.data as Record<string, string>[];
+    const sites = uniqueSites(rows, wellsFile.mapping['well_id']);
+    const levels = { ...wellsFile, crs: undefined, mapping: guessColumnMapping(wellsFile.columns, 'waterLevels') };
+    setWaterLevelsFile(levels);
+    setWellsFile({ ...wellsFile, data: sites });
+    addLog(`Using ${wellsFile.name} for ${sites.length} wells and ${rows.length} water level rows`, 'success');
+    detectExcelDates(levels);
+    setCurrentMappingFile('waterLevels');
+    setShowColumnMapper(true);
   };
 
-  // Get required columns for each file type
-  const getRequiredColumns = (fileType: string): { key: string; label: string; required: boolean }[] => {
-    switch (fileType) {
+  // Update mapping for current file
+  const updateMapping = (targetColumn: string, sourceColumn: string) => {
+    const updateFile = (file: UploadedFile | null): UploadedFile | null => {
+      if (!file) return null;
+      return { ...file, mapping: { ...file.mapping, [targetColumn]: sourceColumn } };
+    };
+
+    switch (currentMappingFile) {
       case 'region':
-        return []; // Region name is entered manually in Step 1
+        setRegionFile(updateFile(regionFile));
+        break;
       case 'aquifer':
-        return [
-          { key: 'aquifer_id', label: 'Aquifer ID', required: true },
-          { key: 'aquifer_name', label: 'Aquifer Name', required: true }
-        ];
+        setAquiferFile(updateFile(aquiferFile));
+        break;
       case 'wells':
-        return [
-          { key: 'well_id', label: 'Well ID', required: true },
-          { key: 'lat', label: 'Latitude', required: true },
-          { key: 'long', label: 'Longitude', required: true },
-          { key: 'aquifer_id', label: 'Aquifer ID', required: false }
-        ];
+        setWellsFile(updateFile(wellsFile));
+        break;
       case 'waterLevels':
-        return [
-          { key: 'well_id', label: 'Well ID', required: true },
-          { key: 'date', label: 'Date', required: true },
-          { key: 'wte', label: 'Water Table Elevation', required: true },
-          { key: 'aquifer_id', label: 'Aquifer ID', required: false }
-        ];
-      default:
-        return [];
+        setWaterLevelsFile(updateFile(waterLevelsFile));
+        break;
     }
   };
 
-  // Update mapping for current file
-  const updateMapping = (targetColumn: string, sourceColumn: string) => {
+  // Change the coordinate system of an uploaded file, reprojecting GeoJSON layers
+  const updateCrs = (fileType: ImportFileType, crs: string) => {
     const updateFile = (file: UploadedFile | null): UploadedFile | null => {
       if (!file) return null;
-      return { ...file, mapping: { ...file.mapping, [targetColumn]: sourceColumn } };
+      if (file.type === 'csv') return { ...file, crs };
+      try {
+        return { ...file, crs, data: reprojectGeoJSON(file.source, crs) };
+      } catch (err) {
+        addLog(`Could not reproject ${file.name} from ${crsLabel(crs)}: ${err}`, 'error');
+        return file;
+      }
     };
 
-    switch (currentMappingFile) {
+    switch (fileType) {
       case 'region':
         setRegionFile(updateFile(regionFile));
         break;
@@ -354,105 +376,94 @@ const DataManager: React.FC<DataManagerProps> = ({
     }
   };
 
-  // Validate all data
-  const validateData = (): ValidationResult => {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    let droppedMeasurements = 0;
-
-    // Check required files
-    if (!regionFile) errors.push('Region file is required');
-    if (!aquiferFile) errors.push('Aquifer file is required');
-    if (!wellsFile) errors.push('Wells file is required');
-    if (!waterLevelsFile) errors.push('Water levels file is required');
-
-    if (errors.length > 0) {
-      return { isValid: false, errors, warnings, droppedMeasurements };
+  // Only the fields validation reads are sent to the worker
+  const importFile = (file: UploadedFile | null): ImportFile | null =>
+    file && { name: file.name, data: file.data, mapping: file.mapping, crs: file.crs };
+
+  // Wells in the standard columns; projected coordinates are written as WGS 84 lat/long
+  const standardWells = (file: UploadedFile): Record<string, string>[] => {
+    const wellsData = file.data as Record<string, string>[];
+    const wellIdCol = file.mapping['well_id'];
+    const latCol = file.mapping['lat'];
+    const longCol = file.mapping['long'];
+    const wellAqIdCol = file.mapping['aquifer_id'];
+    const nameCol = file.mapping['well_name'];
+    const gseCol = file.mapping['gse'];
+
+    const reproject = (file.crs ?? WGS84) !== WGS84;
+    const positions = reproject ? wellPositions(file) : [];
+    if (reproject) {
+      addLog(`Reprojected well coordinates from ${crsLabel(file.crs!)} to WGS 84`, 'info');
     }
 
-    // Check required mappings
-    const checkMapping = (file: UploadedFile, fileType: string) => {
-      const required = getRequiredColumns(fileType).filter(c => c.required);
-      for (const col of required) {
-        if (!file.mapping[col.key]) {
-          errors.push(`${fileType}: Missing mapping for ${col.label}`);
-        }
-      }
-    };
-
-    // Region has no required mappings - name comes from Step 1
-    checkMapping(aquiferFile!, 'aquifer');
-    checkMapping(wellsFile!, 'wells');
-    checkMapping(waterLevelsFile!, 'waterLevels');
-
-    if (errors.length > 0) {
-      return { isValid: false, errors, warnings, droppedMeasurements };
-    }
-
-    // Get aquifer IDs from aquifer file
-    const aquiferIds = new Set<string>();
-    const aquiferFeatures = aquiferFile!.data.type === 'FeatureCollection'
-      ? aquiferFile!.data.features
-      : [aquiferFile!.data];
-    for (const feature of aquiferFeatures) {
-      const id = feature.properties?.[aquiferFile!.mapping['aquifer_id']];
-      if (id) aquiferIds.add(String(id));
-    }
-
-    // Get well IDs and check aquifer references
-    const wellIds = new Set<string>();
-    const wellsData = wellsFile!.data as Record<string, string>[];
-    const wellIdCol = wellsFile!.mapping['well_id'];
-    const wellAqIdCol = wellsFile!.mapping['aquifer_id'];
-
-    for (const well of wellsData) {
-      const wellId = well[wellIdCol];
-      if (wellId) wellIds.add(wellId);
-
-      if (wellAqIdCol && well[wellAqIdCol]) {
-        const aqId = well[wellAqIdCol];
-        if (!aquiferIds.has(aqId)) {
-          errors.push(`Well ${wellId} references non-existent aquifer ${aqId}`);
-        }
-      }
-    }
-
-    if (!wellAqIdCol) {
-      warnings.push('Wells file has no aquifer_id column. Point-in-polygon assignment will be attempted.');
-    }
-
-    // Check water levels reference valid wells
-    const waterLevelsData = waterLevelsFile!.data as Record<string, string>[];
-    const wlWellIdCol = waterLevelsFile!.mapping['well_id'];
-    const validMeasurements: Record<string, string>[] = [];
+    return wellsData.map((w, i) => ({
+      well_id: w[wellIdCol] || '',
+      lat: reproject ? positions[i]?.[1].toFixed(6) ?? '' : w[latCol] || '',
+      long: reproject ? positions[i]?.[0].toFixed(6) ?? '' : w[longCol] || '',
+      aquifer_id: wellAqIdCol ? w[wellAqIdCol] || '' : '',
+      well_name: nameCol ? w[nameCol] || '' : '',
+      gse: gseCol ? w[gseCol] || '' : ''
+    })).filter(w => w.well_id && w.lat && w.long);
+  };
 
-    for (const measurement of waterLevelsData) {
-      const wellId = measurement[wlWellIdCol];
-      if (wellIds.has(wellId)) {
-        validMeasurements.push(measurement);
-      } else {
-        droppedMeasurements++;
-      }
+  // Water levels in the standard columns with ISO dates. Rows with only a depth to water
+  // get their elevation from the well's ground surface elevation in `gseByWell`.
+  const standardWaterLevels = (file: UploadedFile, gseByWell = new Map<string, number>()): Record<string, string>[] => {
+    const waterLevelsData = file.data as Record<string, string>[];
+    const wlWellIdCol = file.mapping['well_id'];
+    const dateCol = file.mapping['date'];
+    const wteCol = file.mapping['wte'];
+    const depthCol = file.mapping['depth'];
+    const wlAqIdCol = file.mapping['aquifer_id'];
+
+    const rows = waterLevelsData.map(m => {
+      const wellId = m[wlWellIdCol] || '';
+      const wte = wteCol ? m[wteCol] || '' : '';
+      return {
+        well_id: wellId,
+        date: normalizeDate(m[dateCol] || '', dateFormat),
+        wte: wte || (depthCol && m[depthCol] ? elevationFromDepth(gseByWell.get(wellId), m[depthCol]) : ''),
+        aquifer_id: wlAqIdCol ? m[wlAqIdCol] || '' : ''
+      };
+    });
+    const kept = rows.filter(m => m.wte !== '');
+    if (kept.length < rows.length) {
+      addLog(`${rows.length - kept.length} measurements have no water level${depthCol ? ' (or a depth at a well without a ground surface elevation)' : ''} and were skipped`, 'warning');
     }
+    return kept;
+  };
 
-    if (droppedMeasurements > 0) {
-      warnings.push(`${droppedMeasurements} measurements reference non-existent wells and will be dropped`);
+  // Ground surface elevation of each well that has one
+  const gseByWell = (wells: Record<string, string>[]): Map<string, number> => {
+    const gse = new Map<string, number>();
+    for (const w of wells) {
+      const value = parseFloat(w['gse']);
+      if (w.well_id && isFinite(value) && value !== 0) gse.set(w.well_id, value);
     }
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
-      droppedMeasurements
-    };
+    return gse;
   };
 
   // Process and generate output files
   const processData = async () => {
+    if (mode === 'update') return processUpdate();
     setIsProcessing(true);
     addLog('Validating data...', 'info');
 
-    const result = validateData();
+    let result: ValidationResult;
+    try {
+      result = await runTask('Validating', options => runWorkerTask('validateImport', {
+        region: importFile(regionFile),
+        aquifer: importFile(aquiferFile),
+        wells: importFile(wellsFile),
+        waterLevels: importFile(waterLevelsFile),
+        dateFormat
+      }, options));
+    } catch (err) {
+      if (isAbortError(err)) addLog('Validation cancelled', 'warning');
+      else addLog(`Validation failed: ${err}`, 'error');
+      setIsProcessing(false);
+      return;
+    }
     setValidation(result);
 
     if (!result.isValid) {
@@ -470,123 +481,143 @@ const DataManager: React.FC<DataManagerProps> = ({
     addLog('Processing files...', 'info');
 
     try {
-      // Process region GeoJSON
-      const regionFeatures = regionFile!.data.type === 'FeatureCollection'
-        ? regionFile!.data.features
-        : [regionFile!.data];
-
-      const processedRegion = {
-        type: 'FeatureCollection',
-        features: regionFeatures.map((f: any) => ({
-          type: 'Feature',
-          properties: {
-            region_id: getFolderName(regionName),
-            region_name: regionName
-          },
-          geometry: f.geometry
-        }))
-      };
-
-      // Process aquifers GeoJSON
-      const aquiferFeatures = aquiferFile!.data.type === 'FeatureCollection'
-        ? aquiferFile!.data.features
-        : [aquiferFile!.data];
-
-      const processedAquifers = {
-        type: 'FeatureCollection',
-        features: aquiferFeatures.map((f: any) => ({
-          type: 'Feature',
-          properties: {
-            aquifer_id: String(f.properties?.[aquiferFile!.mapping['aquifer_id']] || ''),
-            aquifer_name: f.properties?.[aquiferFile!.mapping['aquifer_name']] || ''
-          },
-          geometry: f.geometry
-        }))
-      };
-
-      // Process wells CSV
-      const wellsData = wellsFile!.data as Record<string, string>[];
-      const wellIdCol = wellsFile!.mapping['well_id'];
-      const latCol = wellsFile!.mapping['lat'];
-      const longCol = wellsFile!.mapping['long'];
-      const wellAqIdCol = wellsFile!.mapping['aquifer_id'];
-
-      const processedWells = wellsData.map(w => ({
-        well_id: w[wellIdCol] || '',
-        lat: w[latCol] || '',
-        long: w[longCol] || '',
-        aquifer_id: wellAqIdCol ? w[wellAqIdCol] || '' : ''
-      })).filter(w => w.well_id && w.lat && w.long);
-
-      // Process water levels CSV
-      const waterLevelsData = waterLevelsFile!.data as Record<string, string>[];
-      const wlWellIdCol = waterLevelsFile!.mapping['well_id'];
-      const dateCol = waterLevelsFile!.mapping['date'];
-      const wteCol = waterLevelsFile!.mapping['wte'];
-      const wlAqIdCol = waterLevelsFile!.mapping['aquifer_id'];
+      const processedRegion = standardRegionLayer(regionFile!.data, getFolderName(regionName), regionName);
+      const processedAquifers = standardAquiferLayer(aquiferFile!.data, aquiferFile!.mapping);
 
+      // Process wells and water levels CSVs
+      const processedWells = standardWells(wellsFile!);
       const wellIdSet = new Set(processedWells.map(w => w.well_id));
-      const processedWaterLevels = waterLevelsData
-        .filter(m => wellIdSet.has(m[wlWellIdCol]))
-        .map(m => ({
-          well_id: m[wlWellIdCol] || '',
-          date: parseDate(m[dateCol] || '', dateFormat),
-          wte: m[wteCol] || '',
-          aquifer_id: wlAqIdCol ? m[wlAqIdCol] || '' : ''
-        }));
+      const processedWaterLevels = standardWaterLevels(waterLevelsFile!, gseByWell(processedWells))
+        .filter(m => wellIdSet.has(m.well_id));
 
       // Generate CSV strings
-      const wellsCsv = 'well_id,lat,long,aquifer_id\n' +
-        processedWells.map(w => `${w.well_id},${w.lat},${w.long},${w.aquifer_id}`).join('\n');
-
-      const waterLevelsCsv = 'well_id,date,wte,aquifer_id\n' +
-        processedWaterLevels.map(m => `${m.well_id},${m.date},${m.wte},${m.aquifer_id}`).join('\n');
+      // Names and ground surface elevations only when the wells file has them
+      const wellColumns = ['well_id', 'lat', 'long', 'aquifer_id', 'well_name', 'gse']
+        .filter((c, i) => i < 4 || processedWells.some(w => w[c]));
+      const wellsCsv = formatCsv(wellColumns, processedWells.map(w => wellColumns.map(c => w[c])));
+
+      const waterLevelsCsv = formatCsv(
+        ['well_id', 'date', 'wte', 'aquifer_id'],
+        processedWaterLevels.map(m => [m.well_id, m.date, m.wte, m.aquifer_id])
+      );
 
       addLog(`Processed ${processedWells.length} wells`, 'success');
       addLog(`Processed ${processedWaterLevels.length} measurements`, 'success');
 
-      // Create downloadable files
-      const folderName = getFolderName(regionName);
+      const record: ImportedRegion = {
+        id: getFolderName(regionName),
+        name: regionName,
+        lengthUnit,
+        verticalDatum: verticalDatum.trim(),
+        files: {
+          'region.geojson': JSON.stringify(processedRegion, null, 2),
+          'aquifers.geojson': JSON.stringify(processedAquifers, null, 2),
+          'wells.csv': wellsCsv,
+          'water_levels.csv': waterLevelsCsv
+        },
+        importedAt: new Date().toISOString()
+      };
 
-      // Fetch current regions.json and add new region
-      let regionsManifest: { id: string; path: string; name: string }[] = [];
+      // Keep the region in this browser and show it right away
       try {
-        const response = await fetch('/data/regions.json');
-        if (response.ok) {
-          regionsManifest = await response.json();
-        }
-      } catch (e) {
-        // Start with empty array if manifest doesn't exist
+        await saveImportedRegion(record);
+        const region = regionFromImport(record);
+        const data = await loadRegionData(region);
+        onUpdateRegions([region]);
+        onUpdateAquifers(data.aquifers);
+        onUpdateWells(data.wells);
+        onUpdateMeasurements(data.measurements);
+        addLog(`${regionName} saved in this browser and added to the map`, 'success');
+      } catch (err) {
+        addLog(`Could not save the region in this browser: ${err}`, 'error');
       }
 
-      // Add new region if not already present
-      if (!regionsManifest.find(r => r.id === folderName)) {
-        regionsManifest.push({
-          id: folderName,
-          path: `/data/${folderName}`,
-          name: regionName
-        });
-      }
+      // The same files in the public/data layout, to install the region for everyone
+      const zipBlob = await buildRegionZip([record], await loadRegionManifest());
+      setZipFile({ name: `${record.id}.zip`, blob: zipBlob });
+      addLog(`Zip file ready: ${record.id}.zip (extract to public/data/ to share the region)`, 'info');
 
-      // Create zip file with all data
-      const zip = new JSZip();
-      const regionFolder = zip.folder(folderName);
-      regionFolder?.file('region.geojson', JSON.stringify(processedRegion, null, 2));
-      regionFolder?.file('aquifers.geojson', JSON.stringify(processedAquifers, null, 2));
-      regionFolder?.file('wells.csv', wellsCsv);
-      regionFolder?.file('water_levels.csv', waterLevelsCsv);
-      zip.file('regions.json', JSON.stringify(regionsManifest, null, 2));
+      setStep(6);
 
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      setZipFile({ name: `${folderName}.zip`, blob: zipBlob });
+    } catch (err) {
+      addLog(`Processing failed: ${err}`, 'error');
+    }
 
-      addLog(`Zip file ready: ${folderName}.zip`, 'success');
-      addLog(`Extract to public/data/ and refresh the app`, 'info');
+    setIsProcessing(false);
+  };
 
-      setStep(6);
+  // Merge new wells and water levels into an existing region
+  const processUpdate = async () => {
+    const region = existingRegions.find(r => r.id === updateRegionId);
+    if (!region) return;
+    setIsProcessing(true);
+    addLog(`Validating update for ${region.name}...`, 'info');
 
+    try {
+      // New wells must name aquifers of the region's layer, as in a new region
+      const files = await loadRegionFiles(region);
+      const result = await runTask('Validating', options => runWorkerTask('validateUpdate', {
+        regionGeojson: region.geojson,
+        aquiferGeojson: files['aquifers.geojson'] ? JSON.parse(files['aquifers.geojson']) : null,
+        wells: importFile(wellsFile),
+        waterLevels: importFile(waterLevelsFile),
+        dateFormat
+      }, options));
+      setValidation(result);
+      for (const err of result.errors) addLog(err, 'error');
+      for (const warn of result.warnings) addLog(warn, 'warning');
+      if (!result.isValid) {
+        setIsProcessing(false);
+        return;
+      }
+
+      const newWells = wellsFile ? standardWells(wellsFile) : [];
+      // Depths convert with the ground surface elevation of existing and new wells
+      const gse = gseByWell([...parseCsv(files['wells.csv']).rows, ...newWells]);
+      const merge = await runTask('Merging', options => runWorkerTask('mergeRegionUpdate', {
+        current: { wellsCsv: files['wells.csv'], waterLevelsCsv: files['water_levels.csv'] },
+        update: {
+          wells: newWells,
+          waterLevels: waterLevelsFile ? standardWaterLevels(waterLevelsFile, gse) : []
+        }
+      }, options));
+      setUpdateReport(merge);
+
+      const { wells: w, measurements: m } = merge;
+      if (wellsFile) addLog(`Wells: ${w.added} new, ${w.duplicates} already present, ${w.conflicts} conflicting`, 'success');
+      addLog(`Measurements: ${m.added} new, ${m.duplicates} already present, ${m.conflicts} conflicting`, 'success');
+      if (m.unknownWells > 0) addLog(`${m.unknownWells} measurements reference unknown wells and were dropped`, 'warning');
+      for (const conflict of merge.conflicts.slice(0, 5)) addLog(`Kept existing record: ${conflict}`, 'warning');
+      if (merge.conflicts.length > 5) addLog(`...and ${merge.conflicts.length - 5} more conflicts`, 'warning');
+
+      const updated: ImportedRegion = {
+        id: region.id,
+        name: region.name,
+        lengthUnit: region.lengthUnit,
+        verticalDatum: region.verticalDatum,
+        files: { ...files, 'wells.csv': merge.wellsCsv, 'water_levels.csv': merge.waterLevelsCsv },
+        importedAt: new Date().toISOString()
+      };
+
+      // Imported regions are updated in place; folder regions only change for this session
+      if (region.imported) {
+        const record = await getImportedRegion(region.id);
+        await saveImportedRegion({ ...updated, importedAt: record?.importedAt ?? updated.importedAt });
+        clearRegionDataCache(region.id);
+        addLog(`${region.name} updated in this browser`, 'success');
+      } else {
+        setSessionRegionFiles(region.id, updated.files);
+        addLog(`${region.name} lives in public/data: extract the zip there to keep this update`, 'info');
+      }
+      onUpdateWells(parseWells(merge.addedWells, region.id));
+      onUpdateMeasurements(parseMeasurements(merge.addedMeasurements, region.id));
+
+      const zipBlob = await buildRegionZip([updated], await loadRegionManifest());
+      setZipFile({ name: `${region.id}.zip`, blob: zipBlob });
+      setStep(6);
     } catch (err) {
-      addLog(`Processing failed: ${err}`, 'error');
+      if (isAbortError(err)) addLog('Update cancelled', 'warning');
+      else addLog(`Update failed: ${err}`, 'error');
     }
 
     setIsProcessing(false);
@@ -595,21 +626,21 @@ const DataManager: React.FC<DataManagerProps> = ({
   const [zipFile, setZipFile] = useState<{ name: string; blob: Blob } | null>(null);
 
   const downloadZip = () => {
-    if (!zipFile) return;
-    const url = URL.createObjectURL(zipFile.blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = zipFile.name;
-    a.click();
-    URL.revokeObjectURL(url);
+    if (zipFile) downloadBlob(zipFile.blob, zipFile.name);
   };
 
+  // Region being updated once the update has run, and the folder the zip puts its files in
+  const updateTarget = mode === 'update' && updateReport ? existingRegions.find(r => r.id === updateRegionId) : undefined;
+  const zipFolder = updateTarget
+    ? (updateTarget.path ? updateTarget.path.replace(/^\/data\//, '') : updateTarget.id)
+    : getFolderName(regionName);
+
   // Column Mapper Modal
   const renderColumnMapper = () => {
     const file = getCurrentFile();
     if (!file || !currentMappingFile) return null;
 
-    const requiredColumns = getRequiredColumns(currentMappingFile);
+    const requiredColumns = getRequiredColumns(currentMappingFile, wellsFile?.crs);
     const fileTypeLabels: Record<string, string> = {
       region: 'Region',
       aquifer: 'Aquifers',
@@ -625,6 +656,9 @@ const DataManager: React.FC<DataManagerProps> = ({
           </h3>
           <p className="text-sm text-slate-500 mb-4">
             Map your file columns to the required fields. File: {file.name}
+            {currentMappingFile === 'waterLevels' && (
+              <> Map the water table elevation, the depth to water below land surface, or both; elevations are used where a row has one.</>
+            )}
           </p>
 
           <div className="space-y-3 mb-6">
@@ -647,6 +681,15 @@ const DataManager: React.FC<DataManagerProps> = ({
               </div>
             ))}
 
+            {currentMappingFile === 'wells' && (
+              <div className="flex items-center space-x-3 pt-2 border-t">
+                <label className="w-40 text-sm font-medium text-slate-700">
+                  Coordinate System
+                </label>
+                {renderCrsSelect('wells', file)}
+              </div>
+            )}
+
             {currentMappingFile === 'waterLevels' && (
               <div className="flex items-center space-x-3 pt-2 border-t">
                 <label className="w-40 text-sm font-medium text-slate-700">
@@ -678,6 +721,19 @@ const DataManager: React.FC<DataManagerProps> = ({
     );
   };
 
+  // Coordinate system of an uploaded file
+  const renderCrsSelect = (fileType: 'region' | 'aquifer' | 'wells' | 'waterLevels', file: UploadedFile) => (
+    <select
+      value={file.crs ?? WGS84}
+      onChange={(e) => updateCrs(fileType, e.target.value)}
+      className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    >
+      {crsOptions(file.crs).map(o => (
+        <option key={o.code} value={o.code}>{o.label}</option>
+      ))}
+    </select>
+  );
+
   // File upload card component
   const FileUploadCard = ({
     title,
@@ -715,6 +771,26 @@ const DataManager: React.FC<DataManagerProps> = ({
           className="block w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
         />
       </label>
+      {file?.sheets && file.sheets.length > 1 && (fileType === 'wells' || fileType === 'waterLevels') && (
+        <div className="mt-3 flex items-center space-x-3">
+          <span className="text-xs font-medium text-slate-600">Sheet</span>
+          <select
+            value={file.sheet}
+            onChange={(e) => selectSheet(fileType, e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {file.sheets.map(sheet => (
+              <option key={sheet.name} value={sheet.name}>{sheet.name} ({sheet.rows.length} rows)</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {file?.type === 'geojson' && (
+        <div className="mt-3 flex items-center space-x-3">
+          <span className="text-xs font-medium text-slate-600">Coordinate system</span>
+          {renderCrsSelect(fileType, file)}
+        </div>
+      )}
       {file && fileType !== 'region' && (
         <button
           onClick={() => {
@@ -734,17 +810,79 @@ const DataManager: React.FC<DataManagerProps> = ({
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] overflow-hidden">
         <header className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
           <div>
-            <h2 className="text-xl font-bold text-slate-800">Import New Region</h2>
-            <p className="text-xs text-slate-500 font-medium">Step {step} of 6</p>
+            <h2 className="text-xl font-bold text-slate-800">
+              {view === 'manage' ? 'Manage Regions' : mode === 'update' ? 'Update Region' : 'Import New Region'}
+            </h2>
+            <p className="text-xs text-slate-500 font-medium">{view === 'manage' ? `${existingRegions.length} regions` : `Step ${step} of 6`}</p>
+          </div>
+          <div className="ml-auto mr-2 flex bg-slate-100 rounded-lg p-1 text-sm font-semibold">
+            {(['import', 'manage'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                disabled={isProcessing}
+                className={`px-3 py-1 rounded-md ${view === v ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {v === 'import' ? 'Import' : 'Manage Regions'}
+              </button>
+            ))}
           </div>
           <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400">
             <X size={20} />
           </button>
         </header>
 
-        <div className="p-6 overflow-y-auto flex-1">
-          {/* Step 1: Region Name */}
+        {/* The wizard stays mounted while managing regions so its progress is kept */}
+        {view === 'manage' && (
+          <div className="p-6 overflow-y-auto flex-1">
+            <RegionManager regions={existingRegions} onApply={onApplyRegionChanges} />
+          </div>
+        )}
+
+        <div className={`p-6 overflow-y-auto flex-1 ${view === 'manage' ? 'hidden' : ''}`}>
+          {/* Step 1: New region or update of an existing one */}
           {step === 1 && (
+            <div className="grid grid-cols-2 gap-2 mb-6">
+              {(['create', 'update'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  disabled={m === 'update' && existingRegions.length === 0}
+                  className={`px-4 py-3 rounded-lg border text-sm text-left disabled:opacity-50 ${
+                    mode === m ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="block font-semibold">{m === 'create' ? 'New region' : 'Update a region'}</span>
+                  <span className="block text-xs text-slate-500">
+                    {m === 'create' ? 'Boundary, aquifers, wells and water levels' : 'Append new wells or water levels'}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {step === 1 && mode === 'update' && (
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">Choose Region</h3>
+              <select
+                value={updateRegionId}
+                onChange={(e) => setUpdateRegionId(e.target.value)}
+                className="w-full px-4 py-3 border border-slate-300 rounded-lg text-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select a region...</option>
+                {existingRegions.map(r => (
+                  <option key={r.id} value={r.id}>{r.name}</option>
+                ))}
+              </select>
+              <p className="mt-2 text-sm text-slate-500">
+                Upload new wells, a new batch of water levels, or both. Records already in the region are skipped;
+                records that disagree with an existing one are reported and the existing one is kept.
+              </p>
+            </div>
+          )}
+
+          {/* Step 1: Region Name */}
+          {step === 1 && mode === 'create' && (
             <div>
               <h3 className="text-lg font-semibold text-slate-800 mb-4">Enter Region Name</h3>
               <input
@@ -765,6 +903,34 @@ const DataManager: React.FC<DataManagerProps> = ({
                   Folder name: <span className="font-mono text-slate-700">{getFolderName(regionName)}</span>
                 </p>
               )}
+
+              <div className="mt-6 grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-slate-700">Elevation and depth units</span>
+                  <select
+                    value={lengthUnit}
+                    onChange={(e) => setLengthUnit(e.target.value as LengthUnit)}
+                    className="mt-1 w-full px-3 py-2 border border-slate-300 rounded-lg"
+                  >
+                    {LENGTH_UNITS.map(u => (
+                      <option key={u.value} value={u.value}>{u.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-slate-700">Vertical datum</span>
+                  <input
+                    type="text"
+                    value={verticalDatum}
+                    onChange={(e) => setVerticalDatum(e.target.value)}
+                    placeholder="e.g., NAVD88 (optional)"
+                    className="mt-1 w-full px-3 py-2 border border-slate-300 rounded-lg"
+                  />
+                </label>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Units of the ground surface elevations and water levels in the files you are about to upload.
+              </p>
             </div>
           )}
 
@@ -807,34 +973,53 @@ const DataManager: React.FC<DataManagerProps> = ({
           {/* Step 4: Upload Wells File */}
           {step === 4 && (
             <div>
-              <h3 className="text-lg font-semibold text-slate-800 mb-4">Upload Wells</h3>
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">{mode === 'update' ? 'Upload New Wells (Optional)' : 'Upload Wells'}</h3>
               <p className="text-sm text-slate-500 mb-4">
-                Upload a CSV file containing well locations. Required: well_id, latitude, longitude.
+                Upload a CSV file or Excel workbook containing well locations. Required: well_id, latitude, longitude (or projected X/Y with their coordinate system).
+                USGS NWIS site inventories (RDB) and site/date/value tables are mapped automatically.
+                {mode === 'update' && ' Skip this step when the batch only has water levels for existing wells.'}
               </p>
               <FileUploadCard
                 title="Wells"
                 icon={FileText}
                 fileType="wells"
                 file={wellsFile}
-                accept=".csv,.txt"
+                accept=".csv,.txt,.tsv,.rdb,.xlsx,.xls"
                 color="bg-green-100 text-green-600"
               />
+              {wellsFile?.format === 'long' && waterLevelsFile?.name !== wellsFile.name && (
+                <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                  <p className="text-sm text-blue-800 mb-3">
+                    {wellsFile.name} has one row per measurement, with each site's location. Use it for the water
+                    levels as well; the wells will be its distinct sites.
+                  </p>
+                  <button
+                    onClick={splitLongFormat}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700"
+                  >
+                    Use for Water Levels Too
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
           {/* Step 5: Upload Water Levels File */}
           {step === 5 && (
             <div>
-              <h3 className="text-lg font-semibold text-slate-800 mb-4">Upload Water Levels</h3>
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">{mode === 'update' ? 'Upload New Water Levels' : 'Upload Water Levels'}</h3>
               <p className="text-sm text-slate-500 mb-4">
-                Upload a CSV file containing water level measurements. Required: well_id, date, wte.
+                Upload a CSV file or Excel workbook containing water level measurements. Required: well_id, date, and wte or a depth to water
+                below land surface (converted with the wells' ground surface elevations). USGS NWIS groundwater level
+                downloads (RDB) are read directly.
+                {mode === 'update' && ' Measurements may refer to existing wells or to the new wells.'}
               </p>
               <FileUploadCard
                 title="Water Levels"
                 icon={Droplets}
                 fileType="waterLevels"
                 file={waterLevelsFile}
-                accept=".csv,.txt"
+                accept=".csv,.txt,.tsv,.rdb,.xlsx,.xls"
                 color="bg-cyan-100 text-cyan-600"
               />
             </div>
@@ -843,7 +1028,48 @@ const DataManager: React.FC<DataManagerProps> = ({
           {/* Step 6: Download Files */}
           {step === 6 && (
             <div>
-              <h3 className="text-lg font-semibold text-slate-800 mb-4">Download & Install</h3>
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">{updateTarget ? 'Region Updated' : 'Region Added'}</h3>
+
+              {updateTarget && updateReport ? (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg mb-4 text-sm text-green-800">
+                  <div className="flex items-start space-x-2">
+                    <CheckCircle2 size={18} className="text-green-600 mt-0.5 shrink-0" />
+                    <p>
+                      <strong>{updateTarget.name}</strong>: {updateReport.wells.added} wells and{' '}
+                      {updateReport.measurements.added} measurements added.{' '}
+                      {updateTarget.imported
+                        ? 'The copy saved in this browser is updated.'
+                        : 'The region lives in public/data, so the update lasts for this session only; extract the zip there to keep it.'}
+                    </p>
+                  </div>
+                  <ul className="mt-2 ml-7 space-y-0.5 text-green-700">
+                    <li>{updateReport.wells.duplicates + updateReport.measurements.duplicates} records were already present and skipped</li>
+                    {updateReport.measurements.unknownWells > 0 && (
+                      <li>{updateReport.measurements.unknownWells} measurements of unknown wells were dropped</li>
+                    )}
+                  </ul>
+                </div>
+              ) : (
+                <div className="flex items-start space-x-2 p-4 bg-green-50 border border-green-200 rounded-lg mb-4">
+                  <CheckCircle2 size={18} className="text-green-600 mt-0.5 shrink-0" />
+                  <p className="text-sm text-green-800">
+                    <strong>{regionName}</strong> is saved in this browser and available on the map. It stays there
+                    until the browser's site data is cleared.
+                  </p>
+                </div>
+              )}
+
+              {updateReport && updateReport.conflicts.length > 0 && (
+                <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg mb-4">
+                  <p className="text-sm font-medium text-amber-800 mb-2">
+                    {updateReport.conflicts.length} records disagree with existing ones; the existing values were kept:
+                  </p>
+                  <ul className="text-xs text-amber-700 font-mono space-y-0.5">
+                    {updateReport.conflicts.slice(0, 10).map((conflict, i) => <li key={i}>{conflict}</li>)}
+                    {updateReport.conflicts.length > 10 && <li>...and {updateReport.conflicts.length - 10} more</li>}
+                  </ul>
+                </div>
+              )}
 
               {zipFile && (
                 <div className="flex flex-col items-center justify-center p-8 bg-slate-50 rounded-xl border-2 border-dashed border-slate-300 mb-4">
@@ -865,22 +1091,44 @@ const DataManager: React.FC<DataManagerProps> = ({
               <div className="p-4 bg-slate-100 rounded-lg mb-4">
                 <p className="text-sm font-medium text-slate-700 mb-2">Zip contents:</p>
                 <ul className="text-sm text-slate-600 font-mono space-y-1">
-                  <li>{getFolderName(regionName)}/region.geojson</li>
-                  <li>{getFolderName(regionName)}/aquifers.geojson</li>
-                  <li>{getFolderName(regionName)}/wells.csv</li>
-                  <li>{getFolderName(regionName)}/water_levels.csv</li>
+                  <li>{zipFolder}/region.geojson</li>
+                  <li>{zipFolder}/aquifers.geojson</li>
+                  <li>{zipFolder}/wells.csv</li>
+                  <li>{zipFolder}/water_levels.csv</li>
                   <li>regions.json</li>
                 </ul>
               </div>
 
               <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
                 <p className="text-sm text-amber-800">
-                  <strong>Instructions:</strong> Extract the zip into <span className="font-mono">public/data/</span> and refresh the app.
+                  <strong>To share the region:</strong> extract the zip into <span className="font-mono">public/data/</span> and
+                  rebuild or redeploy the app. Imported regions can also be exported later from the region list.
                 </p>
               </div>
             </div>
           )}
 
+          {/* Background task progress */}
+          {progress && (
+            <div className="mt-6 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+              <div className="flex items-center justify-between text-xs text-slate-600 mb-2">
+                <span>
+                  {progress.label}...
+                  {progress.total > 0 && ` ${Math.round((progress.done / progress.total) * 100)}%`}
+                </span>
+                <button onClick={cancelTask} className="font-semibold text-slate-500 hover:text-red-600">
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-blue-500 transition-all ${progress.total > 0 ? '' : 'w-1/3 animate-pulse'}`}
+                  style={progress.total > 0 ? { width: `${(progress.done / progress.total) * 100}%` } : undefined}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Activity Logs */}
           {logs.length > 0 && (
             <div className="mt-6 bg-slate-900 rounded-xl p-4 font-mono text-sm max-h-40 overflow-y-auto">
@@ -900,9 +1148,9 @@ const DataManager: React.FC<DataManagerProps> = ({
           )}
         </div>
 
-        <footer className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex items-center justify-between">
+        <footer className={`px-6 py-4 bg-slate-50 border-t border-slate-200 flex items-center justify-between ${view === 'manage' ? 'hidden' : ''}`}>
           <button
-            onClick={() => step > 1 && setStep(step - 1)}
+            onClick={() => step > 1 && setStep(mode === 'update' && step === 4 ? 1 : step - 1)}
             disabled={step === 1 || step === 6}
             className="flex items-center space-x-2 text-slate-600 hover:text-slate-800 text-sm font-semibold px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -913,15 +1161,17 @@ const DataManager: React.FC<DataManagerProps> = ({
           {step < 5 && (
             <button
               onClick={() => {
+                // Updates keep the region's boundary and aquifers
+                if (mode === 'update') return setStep(step === 1 ? 4 : step + 1);
                 if (step === 1 && !validateRegionName(regionName)) return;
                 setStep(step + 1);
               }}
-              disabled={
+              disabled={mode === 'update' ? step === 1 && !updateRegionId : (
                 (step === 1 && !regionName) ||
                 (step === 2 && !regionFile) ||
                 (step === 3 && !aquiferFile) ||
                 (step === 4 && !wellsFile)
-              }
+              )}
               className="flex items-center space-x-2 px-6 py-2 bg-slate-800 text-white rounded-lg font-bold text-sm hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <span>Next</span>
@@ -932,7 +1182,7 @@ const DataManager: React.FC<DataManagerProps> = ({
           {step === 5 && (
             <button
               onClick={processData}
-              disabled={!waterLevelsFile || isProcessing}
+              disabled={(!waterLevelsFile && !(mode === 'update' && wellsFile)) || isProcessing}
               className="flex items-center space-x-2 px-6 py-2 bg-green-600 text-white rounded-lg font-bold text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <span>{isProcessing ? 'Processing...' : 'Process & Generate Files'}</span>
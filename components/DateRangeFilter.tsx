@@ -0,0 +1,48 @@
+import React from 'react';
+import { CalendarRange, X } from 'lucide-react';
+import { DateRange, isDateRangeActive } from '../utils/dates';
+
+interface DateRangeFilterProps {
+  range: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+// Global period of interest applied to charts, map counts and statistics
+const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ range, onChange }) => {
+  const isActive = isDateRangeActive(range);
+
+  return (
+    <div
+      className={`flex items-center space-x-1 rounded-md px-2 py-0.5 text-xs ${isActive ? 'bg-blue-50 text-blue-700' : 'bg-slate-100 text-slate-500'}`}
+      title="Only measurements in this period are charted, counted and analyzed"
+    >
+      <CalendarRange size={14} />
+      <input
+        type="date"
+        value={range.start}
+        max={range.end || undefined}
+        onChange={(e) => onChange({ ...range, start: e.target.value })}
+        className="bg-transparent px-1 py-0.5 focus:outline-none"
+      />
+      <span>&ndash;</span>
+      <input
+        type="date"
+        value={range.end}
+        min={range.start || undefined}
+        onChange={(e) => onChange({ ...range, end: e.target.value })}
+        className="bg-transparent px-1 py-0.5 focus:outline-none"
+      />
+      {isActive && (
+        <button
+          onClick={() => onChange({ start: '', end: '' })}
+          className="p-0.5 hover:bg-blue-100 rounded-full"
+          title="Clear date filter"
+        >
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DateRangeFilter;
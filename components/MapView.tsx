@@ -1,8 +1,12 @@
 
 import React, { useEffect, useRef, useMemo, useState } from 'react';
 import L from 'leaflet';
-import { Layers, ChevronRight } from 'lucide-react';
-import { Region, Aquifer, Well, Measurement } from '../types';
+import { Layers, ChevronRight, TrendingDown, MapPin } from 'lucide-react';
+import { Region, Aquifer, Well, WellSummary, WaterTableSurface, WellSlice, WellTrend } from '../types';
+import { divergingColorHex, rampColor, rampColorHex, rampGradientCss } from '../utils/colorRamp';
+import { depthToWater, hasValidGse, ValueMode } from '../utils/wells';
+import { DisplayUnits } from '../utils/units';
+import { clusterByGrid, PointCluster } from '../utils/clustering';
 
 const BASEMAPS = {
   'Topographic': {
@@ -37,45 +41,127 @@ const BASEMAPS = {
   }
 };
 
+// Below this zoom level nearby wells are merged into counted clusters
+const CLUSTER_MAX_ZOOM = 12;
+const CLUSTER_CELL_PX = 60;
+
+// Counted marker for a group of wells; clicking zooms to its members
+function clusterMarker(cluster: PointCluster<Well>, map: L.Map, zoom: number): L.Marker {
+  const count = cluster.items.length;
+  const size = count < 10 ? 28 : count < 100 ? 34 : 40;
+  const marker = L.marker(map.unproject([cluster.x, cluster.y], zoom), {
+    icon: L.divIcon({
+      className: '',
+      iconSize: [size, size],
+      html: `<div class="flex items-center justify-center w-full h-full rounded-full bg-blue-500/80 border-2 border-white text-white text-xs font-bold shadow">${count}</div>`
+    })
+  });
+  marker.bindTooltip(`${count} wells &middot; click to zoom in`, { direction: 'top' });
+  marker.on('click', () => {
+    map.fitBounds(L.latLngBounds(cluster.items.map(w => [w.lat, w.lng] as [number, number])), { padding: [40, 40] });
+  });
+  return marker;
+}
+
 interface MapViewProps {
   regions: Region[];
   aquifers: Aquifer[];
   wells: Well[];
-  measurements: Measurement[];
+  wellSummaries: Map<string, WellSummary>; // Record summary per well ID
   selectedRegion: Region | null;
   selectedAquifer: Aquifer | null;
+  surface: WaterTableSurface | null;
+  timeSlice: WellSlice[] | null;
+  valueMode: ValueMode;
+  trends: WellTrend[] | null;
+  selectedWellIds: string[];
+  units: DisplayUnits;
+  showAllWells: boolean; // Region-wide wells when no aquifer is selected
+  onToggleAllWells: () => void;
   onRegionClick: (r: Region) => void;
   onAquiferClick: (a: Aquifer) => void;
-  onWellClick: (w: Well) => void;
+  onWellClick: (w: Well, additive: boolean) => void; // additive when shift is held
 }
 
 const MapView: React.FC<MapViewProps> = ({
   regions,
   aquifers,
   wells,
-  measurements,
+  wellSummaries,
   selectedRegion,
   selectedAquifer,
+  surface,
+  timeSlice,
+  valueMode,
+  trends,
+  selectedWellIds,
+  units,
+  showAllWells,
+  onToggleAllWells,
   onRegionClick,
   onAquiferClick,
   onWellClick
 }) => {
-  // Count measurements per well
-  const wellMeasurementCounts = useMemo(() => {
-    const counts = new Map<string, number>();
-    for (const m of measurements) {
-      counts.set(m.wellId, (counts.get(m.wellId) || 0) + 1);
+  // Latest depth to water for the displayed wells; wells without a usable GSE are left out
+  const depthColoring = useMemo(() => {
+    if (valueMode !== 'depth') return null;
+    const byWell = new Map<string, number>();
+    let min = Infinity, max = -Infinity;
+    for (const w of wells) {
+      const summary = wellSummaries.get(w.id);
+      if (!summary || !hasValidGse(w)) continue;
+      const depth = depthToWater(w.gse, summary.latestWte);
+      byWell.set(w.id, depth);
+      min = Math.min(min, depth);
+      max = Math.max(max, depth);
+    }
+    return { byWell, min, max };
+  }, [valueMode, wells, wellSummaries]);
+
+  // Trend lookup; colors scale to the largest significant slope magnitude
+  const trendColoring = useMemo(() => {
+    if (!trends) return null;
+    const byWell = new Map(trends.map(t => [t.wellId, t]));
+    let maxSlope = 0;
+    for (const t of trends) {
+      if (t.senSlope !== null && t.direction !== 'no-trend') maxSlope = Math.max(maxSlope, Math.abs(t.senSlope));
     }
-    return counts;
-  }, [measurements]);
+    return { byWell, maxSlope };
+  }, [trends]);
+
+  // Time slice lookup and the value range used to color wells (shared with the surface when shown)
+  const sliceColoring = useMemo(() => {
+    if (!timeSlice) return null;
+    const byWell = new Map(timeSlice.map(s => [s.wellId, s]));
+    let min = Infinity, max = -Infinity;
+    for (const s of timeSlice) {
+      if (s.wte === null || s.isFlagged) continue;
+      min = Math.min(min, s.wte);
+      max = Math.max(max, s.wte);
+    }
+    if (surface) {
+      min = surface.min;
+      max = surface.max;
+    }
+    return { byWell, min, max };
+  }, [timeSlice, surface]);
   const mapRef = useRef<L.Map | null>(null);
   const basemapLayerRef = useRef<L.TileLayer | null>(null);
   const regionLayerRef = useRef<L.FeatureGroup | null>(null);
   const aquiferLayerRef = useRef<L.FeatureGroup | null>(null);
   const wellLayerRef = useRef<L.FeatureGroup | null>(null);
+  const clusterLayerRef = useRef<L.LayerGroup | null>(null);
+  const wellRendererRef = useRef<L.Canvas | null>(null);
+  const wellMarkersRef = useRef(new Map<string, L.CircleMarker>());
+  const surfaceLayerRef = useRef<L.ImageOverlay | null>(null);
+
+  // Markers outlive renders, so clicks go through a ref to the latest handler
+  const onWellClickRef = useRef(onWellClick);
+  onWellClickRef.current = onWellClick;
 
   const [currentBasemap, setCurrentBasemap] = useState<keyof typeof BASEMAPS>('Topographic');
   const [isBasemapMenuOpen, setIsBasemapMenuOpen] = useState(false);
+  const [isTrendSymbology, setIsTrendSymbology] = useState(false);
 
   useEffect(() => {
     if (!mapRef.current) {
@@ -86,9 +172,17 @@ const MapView: React.FC<MapViewProps> = ({
         attribution: basemap.attribution
       }).addTo(mapRef.current);
 
+      // Dedicated panes keep the surface above aquifer fills but below wells
+      mapRef.current.createPane('surfacePane').style.zIndex = '410';
+      mapRef.current.createPane('wellPane').style.zIndex = '420';
+
       regionLayerRef.current = L.featureGroup().addTo(mapRef.current);
       aquiferLayerRef.current = L.featureGroup().addTo(mapRef.current);
       wellLayerRef.current = L.featureGroup().addTo(mapRef.current);
+      clusterLayerRef.current = L.layerGroup().addTo(mapRef.current);
+
+      // One canvas for all wells instead of an SVG element per marker
+      wellRendererRef.current = L.canvas({ pane: 'wellPane', padding: 0.5 });
     }
   }, []);
 
@@ -167,48 +261,250 @@ const MapView: React.FC<MapViewProps> = ({
     }
   }, [aquifers, selectedRegion, selectedAquifer]);
 
-  // Update Well Layer
+  // Create the well markers when the well set changes; styling and clustering are applied below
   useEffect(() => {
-    if (!wellLayerRef.current || !mapRef.current) return;
+    const map = mapRef.current;
+    if (!wellLayerRef.current || !map) return;
     wellLayerRef.current.clearLayers();
 
-    if (selectedAquifer) {
-      wells.forEach(w => {
-        const measurementCount = wellMeasurementCounts.get(w.id) || 0;
-        const hasEnoughData = measurementCount >= 2;
-        const marker = L.circleMarker([w.lat, w.lng], {
-          radius: 6,
-          fillColor: hasEnoughData ? '#3b82f6' : '#ef4444', // blue if data, red if not
-          color: '#ffffff',
-          weight: 2,
-          opacity: 1,
-          fillOpacity: 0.8
-        });
-        marker.bindTooltip(`Well: ${w.name}<br/>ID: ${w.id}<br/>Measurements: ${measurementCount}`, { direction: 'top' });
-        marker.on('click', (e) => {
-          L.DomEvent.stopPropagation(e);
-          onWellClick(w);
-        });
-        wellLayerRef.current?.addLayer(marker);
+    const markers = new Map<string, L.CircleMarker>();
+    for (const w of wells) {
+      const marker = L.circleMarker([w.lat, w.lng], {
+        pane: 'wellPane',
+        renderer: wellRendererRef.current!,
+        opacity: 1,
+        fillOpacity: 0.8
       });
+      marker.bindTooltip('', { direction: 'top' });
+      marker.on('click', (e) => {
+        L.DomEvent.stopPropagation(e);
+        onWellClickRef.current(w, (e.originalEvent as MouseEvent).shiftKey);
+      });
+      markers.set(w.id, marker);
+    }
+    wellMarkersRef.current = markers;
+
+    if (wells.length > 0) {
+      const bounds = L.latLngBounds(wells.map(w => [w.lat, w.lng] as [number, number]));
+      if (bounds.isValid()) map.flyToBounds(bounds, { padding: [100, 100], duration: 1 });
+    } else if (selectedAquifer) {
+      // Zoom to aquifer bounds
+      const aBounds = L.latLngBounds([selectedAquifer.bounds[0], selectedAquifer.bounds[1]], [selectedAquifer.bounds[2], selectedAquifer.bounds[3]]);
+      map.flyToBounds(aBounds, { padding: [40, 40] });
+    }
+  }, [wells]);
+
+  // Restyle the existing markers in place
+  useEffect(() => {
+    for (const w of wells) {
+      const marker = wellMarkersRef.current.get(w.id);
+      if (!marker) continue;
+
+      const measurementCount = wellSummaries.get(w.id)?.count ?? 0;
+      const hasEnoughData = measurementCount >= 2;
+      let fillColor = hasEnoughData ? '#3b82f6' : '#ef4444'; // blue if data, red if not
+      let tooltip = `Well: ${w.name}<br/>ID: ${w.id}<br/>Measurements: ${measurementCount}`;
+
+      const trend = trendColoring?.byWell.get(w.id);
+      if (trend && trend.senSlope !== null) {
+        tooltip += `<br/>Trend: ${trend.senSlope >= 0 ? '+' : ''}${(trend.senSlope * units.factor).toFixed(2)} ${units.unit}/yr (${trend.direction}, p=${trend.pValue!.toFixed(3)})`;
+      }
+      if (trend?.lastDate) tooltip += `<br/>Last measured: ${trend.lastDate}`;
+
+      const slice = sliceColoring?.byWell.get(w.id);
+      let radius = 6;
+      if (isTrendSymbology && trendColoring && !slice) {
+        // Diverging colors by slope, larger markers for stronger significant trends
+        if (trend && trend.senSlope !== null && trend.direction !== 'no-trend') {
+          const t = trend.senSlope / (trendColoring.maxSlope || 1);
+          fillColor = divergingColorHex(t);
+          radius = 5 + 4 * Math.min(1, Math.abs(t));
+        } else {
+          fillColor = trend?.direction === 'no-trend' ? divergingColorHex(0) : '#94a3b8';
+        }
+      } else if (depthColoring && !slice) {
+        const depth = depthColoring.byWell.get(w.id);
+        if (depth !== undefined) {
+          fillColor = rampColorHex((depth - depthColoring.min) / (depthColoring.max - depthColoring.min || 1));
+          tooltip += `<br/>Latest depth to water: ${(depth * units.factor).toFixed(2)} ${units.unit}`;
+        } else {
+          fillColor = '#94a3b8';
+          tooltip += hasValidGse(w)
+            ? '<br/>Depth to water: no measurements'
+            : '<br/><b>Flagged: ground surface elevation missing</b>';
+        }
+      }
+      if (sliceColoring && slice) {
+        // Color by the time slice estimate; flagged wells are greyed out
+        if (slice.wte !== null && !slice.isFlagged) {
+          fillColor = rampColorHex((slice.wte - sliceColoring.min) / (sliceColoring.max - sliceColoring.min || 1));
+        } else {
+          fillColor = '#94a3b8';
+        }
+        tooltip += slice.wte !== null
+          ? `<br/>WTE: ${(slice.wte * units.factor).toFixed(2)} ${units.unit} (${slice.status})`
+          : `<br/>WTE: not available`;
+        if (slice.nearestDate) tooltip += `<br/>Nearest: ${slice.nearestDate} (${slice.gapDays} days)`;
+        if (slice.isFlagged) tooltip += '<br/><b>Flagged: too far from a measurement</b>';
+      }
+
+      const isSelected = selectedWellIds.includes(w.id);
+      marker.setStyle({
+        fillColor,
+        color: isSelected ? '#0f172a' : '#ffffff',
+        weight: isSelected ? 3 : 2
+      });
+      marker.setRadius(isSelected ? radius + 2 : radius);
+      marker.setTooltipContent(tooltip);
+    }
+  }, [wells, wellSummaries, sliceColoring, depthColoring, trendColoring, isTrendSymbology, selectedWellIds, units]);
+
+  // Show wells individually when zoomed in and as clusters below CLUSTER_MAX_ZOOM; selected wells stay individual
+  useEffect(() => {
+    const map = mapRef.current;
+    const wellLayer = wellLayerRef.current;
+    const clusterLayer = clusterLayerRef.current;
+    if (!map || !wellLayer || !clusterLayer) return;
 
-      if (wells.length > 0) {
-        const bounds = wellLayerRef.current.getBounds();
-        if (bounds.isValid()) mapRef.current.flyToBounds(bounds, { padding: [100, 100], duration: 1 });
+    const update = () => {
+      clusterLayer.clearLayers();
+      const zoom = map.getZoom();
+      const visible = new Set<string>(selectedWellIds);
+
+      if (zoom >= CLUSTER_MAX_ZOOM) {
+        for (const w of wells) visible.add(w.id);
       } else {
-        // Zoom to aquifer bounds
-        const aBounds = L.latLngBounds([selectedAquifer.bounds[0], selectedAquifer.bounds[1]], [selectedAquifer.bounds[2], selectedAquifer.bounds[3]]);
-        mapRef.current.flyToBounds(aBounds, { padding: [40, 40] });
+        const clusters = clusterByGrid<Well>(
+          wells.filter(w => !visible.has(w.id)),
+          w => {
+            const p = map.project([w.lat, w.lng], zoom);
+            return [p.x, p.y];
+          },
+          CLUSTER_CELL_PX
+        );
+        for (const cluster of clusters) {
+          if (cluster.items.length === 1) visible.add(cluster.items[0].id);
+          else clusterLayer.addLayer(clusterMarker(cluster, map, zoom));
+        }
       }
+
+      // Only touch markers whose visibility changed
+      wellMarkersRef.current.forEach((marker, id) => {
+        const shown = visible.has(id);
+        if (shown === wellLayer.hasLayer(marker)) return;
+        if (shown) wellLayer.addLayer(marker);
+        else wellLayer.removeLayer(marker);
+      });
+    };
+
+    update();
+    map.on('zoomend', update);
+    return () => {
+      map.off('zoomend', update);
+    };
+  }, [wells, selectedWellIds]);
+
+  // Update interpolated surface overlay
+  useEffect(() => {
+    if (!mapRef.current) return;
+    if (surfaceLayerRef.current) {
+      mapRef.current.removeLayer(surfaceLayerRef.current);
+      surfaceLayerRef.current = null;
     }
-  }, [wells, selectedAquifer, wellMeasurementCounts]);
+    if (!surface) return;
+
+    // Paint the raster into a canvas, one pixel per cell
+    const canvas = document.createElement('canvas');
+    canvas.width = surface.nx;
+    canvas.height = surface.ny;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const image = ctx.createImageData(surface.nx, surface.ny);
+    const span = surface.max - surface.min || 1;
+    surface.values.forEach((v, i) => {
+      if (v === null) return;
+      const [r, g, b] = rampColor((v - surface.min) / span);
+      image.data[i * 4] = r;
+      image.data[i * 4 + 1] = g;
+      image.data[i * 4 + 2] = b;
+      image.data[i * 4 + 3] = 255;
+    });
+    ctx.putImageData(image, 0, 0);
+
+    const [minLat, minLng, maxLat, maxLng] = surface.bounds;
+    surfaceLayerRef.current = L.imageOverlay(canvas.toDataURL(), [[minLat, minLng], [maxLat, maxLng]], {
+      opacity: 0.7,
+      pane: 'surfacePane',
+      className: 'surface-overlay'
+    }).addTo(mapRef.current);
+  }, [surface]);
 
   return (
     <div className="relative w-full h-full">
       <div id="map-container" className="w-full h-full" />
 
+      {/* Time Slice Legend (when no surface is shown) */}
+      {!surface && sliceColoring && isFinite(sliceColoring.min) && (
+        <div className="absolute bottom-6 right-3 z-[1000] bg-white rounded shadow-md border border-slate-300 p-2 text-xs" style={{ width: '200px' }}>
+          <div className="font-semibold text-slate-700 mb-1">Well WTE ({units.unit})</div>
+          <div className="h-3 rounded" style={{ background: rampGradientCss() }} />
+          <div className="flex justify-between text-slate-500 mt-1">
+            <span>{(sliceColoring.min * units.factor).toFixed(1)}</span>
+            <span>{(sliceColoring.max * units.factor).toFixed(1)}</span>
+          </div>
+          <div className="flex items-center space-x-1 text-slate-400 mt-1">
+            <span className="inline-block w-2 h-2 rounded-full bg-slate-400" />
+            <span>Flagged / no estimate</span>
+          </div>
+        </div>
+      )}
+
+      {/* Trend Legend */}
+      {!sliceColoring && isTrendSymbology && trendColoring && selectedAquifer && (
+        <div className="absolute bottom-6 right-3 z-[1000] bg-white rounded shadow-md border border-slate-300 p-2 text-xs" style={{ width: '200px' }}>
+          <div className="font-semibold text-slate-700 mb-1">Trend (Sen's slope, {units.unit}/yr)</div>
+          <div className="h-3 rounded" style={{ background: `linear-gradient(to right, ${divergingColorHex(-1)}, ${divergingColorHex(0)}, ${divergingColorHex(1)})` }} />
+          <div className="flex justify-between text-slate-500 mt-1">
+            <span>-{(trendColoring.maxSlope * units.factor).toFixed(2)}</span>
+            <span>0</span>
+            <span>+{(trendColoring.maxSlope * units.factor).toFixed(2)}</span>
+          </div>
+          <div className="text-slate-400 mt-1">Significant trends only (p &lt; 0.05)</div>
+        </div>
+      )}
+
+      {/* Depth to Water Legend */}
+      {!sliceColoring && !isTrendSymbology && depthColoring && selectedAquifer && isFinite(depthColoring.min) && (
+        <div className="absolute bottom-6 right-3 z-[1000] bg-white rounded shadow-md border border-slate-300 p-2 text-xs" style={{ width: '200px' }}>
+          <div className="font-semibold text-slate-700 mb-1">Latest Depth to Water ({units.unit})</div>
+          <div className="h-3 rounded" style={{ background: rampGradientCss() }} />
+          <div className="flex justify-between text-slate-500 mt-1">
+            <span>{(depthColoring.min * units.factor).toFixed(1)}</span>
+            <span>{(depthColoring.max * units.factor).toFixed(1)}</span>
+          </div>
+          <div className="flex items-center space-x-1 text-slate-400 mt-1">
+            <span className="inline-block w-2 h-2 rounded-full bg-slate-400" />
+            <span>GSE missing / no data</span>
+          </div>
+        </div>
+      )}
+
+      {/* Surface Legend */}
+      {surface && (
+        <div className="absolute bottom-6 right-3 z-[1000] bg-white rounded shadow-md border border-slate-300 p-2 text-xs" style={{ width: '200px' }}>
+          <div className="font-semibold text-slate-700 mb-1">Water Table Elevation ({units.unit})</div>
+          <div className="h-3 rounded" style={{ background: rampGradientCss() }} />
+          <div className="flex justify-between text-slate-500 mt-1">
+            <span>{(surface.min * units.factor).toFixed(1)}</span>
+            <span>{(surface.max * units.factor).toFixed(1)}</span>
+          </div>
+          <div className="text-slate-400 mt-1">{surface.date} &middot; {surface.variogram.model} variogram</div>
+        </div>
+      )}
+
       {/* Basemap Gallery */}
-      <div className="absolute top-3 right-3 z-[1000]">
+      <div className="absolute top-3 right-3 z-[1000] flex flex-col items-end space-y-2">
         {!isBasemapMenuOpen ? (
           /* Collapsed - just the icon button */
           <button
@@ -262,6 +558,32 @@ const MapView: React.FC<MapViewProps> = ({
             </div>
           </div>
         )}
+
+        {/* All wells in the region when no aquifer is selected */}
+        {selectedRegion && !selectedAquifer && (
+          <button
+            onClick={onToggleAllWells}
+            className={`flex items-center justify-center w-8 h-8 rounded shadow-md border transition-colors ${
+              showAllWells ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+            }`}
+            title="Show all wells in region"
+          >
+            <MapPin size={16} />
+          </button>
+        )}
+
+        {/* Trend symbology toggle */}
+        {trends && selectedAquifer && (
+          <button
+            onClick={() => setIsTrendSymbology(!isTrendSymbology)}
+            className={`flex items-center justify-center w-8 h-8 rounded shadow-md border transition-colors ${
+              isTrendSymbology ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+            }`}
+            title="Symbolize wells by trend"
+          >
+            <TrendingDown size={16} />
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,400 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Pencil, Trash2, RotateCcw, MapPin, Layers, Download, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Region } from '../types';
+import { LengthUnit, LENGTH_UNITS } from '../utils/units';
+import { crsOptions, reprojectGeoJSON } from '../utils/crs';
+import { downloadBlob } from '../utils/download';
+import { ColumnMapping, featuresOf, validateLayer } from '../services/importValidation';
+import { LayerFile, readLayerFile, standardAquiferLayer } from '../services/layerFiles';
+import { loadRegionData } from '../services/dataLoader';
+import { guessColumnMapping } from '../services/groundwaterFormats';
+import {
+  RegionDraft, applyRegionDrafts, isDraftChanged, regionDraft, regionIdError, regionNameError, takenRegionIds
+} from '../services/regionManagement';
+
+interface RegionManagerProps {
+  regions: Region[];
+  // Called with the regions after saving, in order, and the previous IDs whose loaded contents are out of date
+  onApply: (regions: Region[], stale: string[]) => void;
+}
+
+// A replacement layer waiting for its coordinate system and, for aquifers, its ID and name properties
+interface PendingLayer {
+  regionId: string;
+  type: 'region' | 'aquifer';
+  fileName: string;
+  layer: LayerFile;
+  crs: string;
+  columns: string[];
+  mapping: ColumnMapping;
+  errors: string[];
+}
+
+const RegionManager: React.FC<RegionManagerProps> = ({ regions, onApply }) => {
+  const [drafts, setDrafts] = useState<RegionDraft[]>(() => regions.map(regionDraft));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingLayer | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' | 'warning' } | null>(null);
+  const [saved, setSaved] = useState<{ zip: Blob | null; removedFolders: string[] } | null>(null);
+
+  const updateDraft = (regionId: string, change: Partial<RegionDraft>) =>
+    setDrafts(prev => prev.map(d => d.region.id === regionId ? { ...d, ...change } : d));
+
+  const move = (index: number, offset: number) => setDrafts(prev => {
+    const next = [...prev];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  // Problems with a draft's name and ID; an unchanged ID is always accepted
+  const draftErrors = (draft: RegionDraft): string[] => {
+    if (draft.deleted) return [];
+    const otherNames = drafts.filter(d => d !== draft && !d.deleted).map(d => d.name);
+    const errors = [regionNameError(draft.name, otherNames)];
+    if (draft.id !== draft.region.id) errors.push(regionIdError(draft.id, takenRegionIds(drafts, draft)));
+    return errors.filter((e): e is string => e !== null);
+  };
+
+  const reordered = drafts.some((d, i) => d.region.id !== regions[i]?.id);
+  const hasChanges = reordered || drafts.some(isDraftChanged);
+  const hasErrors = drafts.some(d => draftErrors(d).length > 0);
+
+  const chooseLayer = async (e: React.ChangeEvent<HTMLInputElement>, draft: RegionDraft, type: 'region' | 'aquifer') => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const layer = await readLayerFile(file);
+      const columns = Object.keys(featuresOf(layer.source)[0]?.properties ?? {});
+      setPending({
+        regionId: draft.region.id,
+        type,
+        fileName: file.name,
+        layer,
+        crs: layer.crs,
+        columns,
+        mapping: type === 'aquifer' ? guessColumnMapping(columns, 'aquifer') : {},
+        errors: []
+      });
+    } catch (err) {
+      setMessage({ text: `Could not read ${file.name}: ${err}`, type: 'error' });
+    }
+  };
+
+  // Check the pending layer and, when it passes, put it on the draft
+  const acceptPendingLayer = async () => {
+    if (!pending) return;
+    const draft = drafts.find(d => d.region.id === pending.regionId);
+    if (!draft) return;
+    try {
+      const data = reprojectGeoJSON(pending.layer.source, pending.crs);
+      // Wells keep their aquifer IDs, so a new aquifer layer should still have them
+      const wellAquiferIds = pending.type === 'aquifer'
+        ? (await loadRegionData(draft.region)).wells.map(w => w.aquiferId)
+        : [];
+      const result = validateLayer(pending.type, { name: pending.fileName, data, mapping: pending.mapping }, wellAquiferIds);
+      if (!result.isValid) {
+        setPending({ ...pending, errors: result.errors });
+        return;
+      }
+      updateDraft(draft.region.id, pending.type === 'region'
+        ? { boundary: data }
+        : { aquifers: standardAquiferLayer(data, pending.mapping) });
+      setMessage(result.warnings.length > 0 ? { text: result.warnings.join(' '), type: 'warning' } : null);
+      setPending(null);
+    } catch (err) {
+      setPending({ ...pending, errors: [`${err}`] });
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const changes = await applyRegionDrafts(drafts);
+      onApply(changes.regions, changes.stale);
+      setDrafts(changes.regions.map(regionDraft));
+      setEditingId(null);
+      setSaved({ zip: changes.zip, removedFolders: changes.removedFolders });
+      setMessage({ text: 'Changes saved', type: 'success' });
+    } catch (err) {
+      setMessage({ text: `Could not save the changes: ${err}`, type: 'error' });
+    }
+    setIsSaving(false);
+  };
+
+  const reset = () => {
+    setDrafts(regions.map(regionDraft));
+    setEditingId(null);
+    setPending(null);
+    setMessage(null);
+  };
+
+  const renderPendingLayer = (p: PendingLayer) => (
+    <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2 text-sm">
+      <p className="font-medium text-slate-700">
+        New {p.type === 'region' ? 'boundary' : 'aquifer layer'}: {p.fileName} ({p.layer.featureCount} features)
+      </p>
+      {p.layer.notes.filter(n => n.type === 'warning').map((n, i) => (
+        <p key={i} className="text-xs text-amber-700">{n.msg}</p>
+      ))}
+      <label className="flex items-center space-x-3">
+        <span className="text-xs font-medium text-slate-600 w-28">Coordinate system</span>
+        <select
+          value={p.crs}
+          onChange={(e) => setPending({ ...p, crs: e.target.value, errors: [] })}
+          className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-sm"
+        >
+          {crsOptions(p.crs).map(o => (
+            <option key={o.code} value={o.code}>{o.label}</option>
+          ))}
+        </select>
+      </label>
+      {p.type === 'aquifer' && (['aquifer_id', 'aquifer_name'] as const).map(key => (
+        <label key={key} className="flex items-center space-x-3">
+          <span className="text-xs font-medium text-slate-600 w-28">{key === 'aquifer_id' ? 'Aquifer ID' : 'Aquifer name'}</span>
+          <select
+            value={p.mapping[key] ?? ''}
+            onChange={(e) => setPending({ ...p, mapping: { ...p.mapping, [key]: e.target.value }, errors: [] })}
+            className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-sm"
+          >
+            <option value="">Select property...</option>
+            {p.columns.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+      ))}
+      {p.errors.map((err, i) => (
+        <p key={i} className="text-xs text-red-600">{err}</p>
+      ))}
+      <div className="flex justify-end space-x-2">
+        <button onClick={() => setPending(null)} className="px-3 py-1 text-xs font-semibold text-slate-600 hover:text-slate-800">
+          Discard
+        </button>
+        <button
+          onClick={acceptPendingLayer}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-xs font-semibold hover:bg-blue-700"
+        >
+          Use this layer
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-sm text-slate-500 mb-4">
+        Rename, reorder, edit or delete regions, or replace a region's boundary or aquifer layer. Regions saved in
+        this browser change in place; changes to regions in <span className="font-mono">public/data</span> last for
+        this session and come with a zip to install them.
+      </p>
+
+      <div className="space-y-2">
+        {drafts.map((draft, index) => {
+          const { region } = draft;
+          const key = region.id;
+          const errors = draftErrors(draft);
+          return (
+            <div
+              key={key}
+              className={`border rounded-lg p-3 ${draft.deleted ? 'border-red-200 bg-red-50/50' : errors.length > 0 ? 'border-red-300' : 'border-slate-200'}`}
+            >
+              <div className="flex items-center space-x-2">
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === drafts.length - 1}
+                    className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                </div>
+
+                <div className={`flex-1 min-w-0 ${draft.deleted ? 'line-through text-slate-400' : ''}`}>
+                  <p className="font-semibold text-slate-800 truncate">
+                    {draft.name || region.name}
+                    {region.imported && <span className="ml-2 text-[9px] font-bold uppercase text-slate-400">Local</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 font-mono truncate">
+                    {region.imported ? draft.id : draft.id !== region.id ? `/data/${draft.id}` : region.path}
+                    {' · '}{draft.lengthUnit}{draft.verticalDatum.trim() && ` · ${draft.verticalDatum.trim()}`}
+                  </p>
+                  {!draft.deleted && (draft.id !== region.id || draft.boundary || draft.aquifers) && (
+                    <p className="text-xs text-blue-600">
+                      {[
+                        draft.id !== region.id && `renamed from ${region.id}`,
+                        draft.boundary && 'new boundary',
+                        draft.aquifers && 'new aquifer layer'
+                      ].filter(Boolean).join(', ')}
+                    </p>
+                  )}
+                </div>
+
+                {draft.deleted ? (
+                  <button
+                    onClick={() => updateDraft(key, { deleted: false })}
+                    className="flex items-center space-x-1 px-2 py-1 text-xs font-semibold text-slate-600 hover:text-slate-800"
+                  >
+                    <RotateCcw size={14} />
+                    <span>Undo</span>
+                  </button>
+                ) : (
+                  <div className="flex items-center space-x-1 text-slate-400">
+                    <button
+                      onClick={() => setEditingId(editingId === key ? null : key)}
+                      className={`p-1.5 rounded hover:bg-slate-100 hover:text-blue-600 ${editingId === key ? 'text-blue-600' : ''}`}
+                      title="Edit name, folder and units"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <label className="p-1.5 rounded hover:bg-slate-100 hover:text-blue-600 cursor-pointer" title="Replace boundary">
+                      <MapPin size={16} />
+                      <input type="file" accept=".geojson,.json,.zip" className="hidden" onChange={(e) => chooseLayer(e, draft, 'region')} />
+                    </label>
+                    <label className="p-1.5 rounded hover:bg-slate-100 hover:text-blue-600 cursor-pointer" title="Replace aquifer layer">
+                      <Layers size={16} />
+                      <input type="file" accept=".geojson,.json,.zip" className="hidden" onChange={(e) => chooseLayer(e, draft, 'aquifer')} />
+                    </label>
+                    <button
+                      onClick={() => {
+                        updateDraft(key, { deleted: true });
+                        if (editingId === key) setEditingId(null);
+                        if (pending?.regionId === key) setPending(null);
+                      }}
+                      className="p-1.5 rounded hover:bg-red-50 hover:text-red-600"
+                      title="Delete region"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {draft.deleted && (
+                <p className="mt-2 text-xs text-red-600">
+                  {region.imported
+                    ? 'Saving removes this region and its data from this browser.'
+                    : 'Saving removes this region from regions.json; delete its folder from public/data as well.'}
+                </p>
+              )}
+
+              {editingId === key && !draft.deleted && (
+                <div className="mt-3 grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="text-xs font-medium text-slate-600">Display name</span>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => updateDraft(key, { name: e.target.value })}
+                      className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-medium text-slate-600">Folder name (region ID)</span>
+                    <input
+                      type="text"
+                      value={draft.id}
+                      onChange={(e) => updateDraft(key, { id: e.target.value.trim() })}
+                      className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-mono"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-medium text-slate-600">Elevation and depth units</span>
+                    <select
+                      value={draft.lengthUnit}
+                      onChange={(e) => updateDraft(key, { lengthUnit: e.target.value as LengthUnit })}
+                      className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                    >
+                      {LENGTH_UNITS.map(u => (
+                        <option key={u.value} value={u.value}>{u.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-medium text-slate-600">Vertical datum</span>
+                    <input
+                      type="text"
+                      value={draft.verticalDatum}
+                      onChange={(e) => updateDraft(key, { verticalDatum: e.target.value })}
+                      placeholder="e.g. NAVD88"
+                      className="mt-1 w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                    />
+                  </label>
+                  {!region.imported && region.path !== `/data/${region.id}` && draft.id === region.id && (
+                    <p className="col-span-2 text-xs text-slate-500">
+                      The folder <span className="font-mono">{region.path}</span> does not match the region ID; change the
+                      folder name to move its files to <span className="font-mono">/data/&lt;folder name&gt;</span>.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {errors.map((err, i) => (
+                <p key={i} className="mt-2 text-xs text-red-600">{err}</p>
+              ))}
+
+              {pending?.regionId === key && renderPendingLayer(pending)}
+            </div>
+          );
+        })}
+      </div>
+
+      {message && (
+        <div className={`mt-4 flex items-start space-x-2 p-3 rounded-lg text-sm ${
+          message.type === 'success' ? 'bg-green-50 text-green-800' :
+          message.type === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={16} className="mt-0.5 shrink-0" /> : <AlertCircle size={16} className="mt-0.5 shrink-0" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {saved?.zip && (
+        <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <p className="mb-2">
+            <strong>To keep changes to regions in public/data:</strong>
+            {saved.removedFolders.length > 0 && (
+              <> delete {saved.removedFolders.map(f => <span key={f} className="font-mono">public{f}/ </span>)} then</>
+            )}
+            {' '}extract the zip into <span className="font-mono">public/data/</span> and rebuild or redeploy the app.
+          </p>
+          <button
+            onClick={() => downloadBlob(saved.zip!, 'regions.zip')}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700"
+          >
+            <Download size={16} />
+            <span>Download Zip</span>
+          </button>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end space-x-2">
+        <button
+          onClick={reset}
+          disabled={!hasChanges || isSaving}
+          className="px-4 py-2 text-sm font-semibold text-slate-600 hover:text-slate-800 disabled:opacity-50"
+        >
+          Discard changes
+        </button>
+        <button
+          onClick={save}
+          disabled={!hasChanges || hasErrors || isSaving}
+          className="px-6 py-2 bg-green-600 text-white rounded-lg font-bold text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RegionManager;
@@ -1,25 +1,35 @@
 
 import React from 'react';
-import { Region, Aquifer } from '../types';
-import { MapPin, Droplets, List, Box } from 'lucide-react';
+import { Region, Aquifer, Well, RegionLoadProgress } from '../types';
+import { MapPin, Droplets, List, Box, Activity, Download } from 'lucide-react';
 
 interface SidebarProps {
   regions: Region[];
+  regionProgress: Record<string, RegionLoadProgress>; // Regions whose contents are loading
   selectedRegion: Region | null;
   setSelectedRegion: (r: Region | null) => void;
   aquifers: Aquifer[];
   selectedAquifer: Aquifer | null;
   setSelectedAquifer: (a: Aquifer | null) => void;
+  wells: Well[];
+  selectedWellIds: string[];
+  onToggleWell: (w: Well) => void;
   openDataManager: () => void;
+  onExportImported: () => void; // Download regions imported into this browser as a zip
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   regions,
+  regionProgress,
   selectedRegion,
   setSelectedRegion,
   aquifers,
   selectedAquifer,
   setSelectedAquifer,
+  wells,
+  selectedWellIds,
+  onToggleWell,
+  onExportImported,
 }) => {
   return (
     <aside className="w-80 bg-white border-r border-slate-200 flex flex-col shadow-xl z-20">
@@ -37,26 +47,52 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div className="flex items-center space-x-2 mb-3 text-slate-400">
             <MapPin size={16} />
             <h2 className="text-xs font-bold uppercase tracking-widest">Regions</h2>
+            {regions.some(r => r.imported) && (
+              <button
+                onClick={onExportImported}
+                className="ml-auto p-1 rounded hover:bg-slate-100 hover:text-blue-600"
+                title="Download regions imported into this browser as a zip for public/data"
+              >
+                <Download size={14} />
+              </button>
+            )}
           </div>
           <div className="space-y-1">
             {regions.map(r => (
-              <button
-                key={r.id}
-                onClick={() => setSelectedRegion(selectedRegion?.id === r.id ? null : r)}
-                className={`w-full text-left px-3 py-2.5 rounded-lg text-sm transition-all flex items-center justify-between group ${
-                  selectedRegion?.id === r.id 
-                    ? 'bg-blue-600 text-white shadow-md' 
-                    : 'text-slate-600 hover:bg-slate-50 hover:text-blue-600'
-                }`}
-              >
-                <div className="flex items-center space-x-3">
-                  <Box size={14} className={selectedRegion?.id === r.id ? 'text-blue-100' : 'text-slate-300'} />
-                  <span className="font-medium">{r.name}</span>
-                </div>
-                {selectedRegion?.id === r.id && (
-                  <div className="w-2 h-2 bg-white rounded-full animate-pulse" />
+              <React.Fragment key={r.id}>
+                <button
+                  onClick={() => setSelectedRegion(selectedRegion?.id === r.id ? null : r)}
+                  className={`w-full text-left px-3 py-2.5 rounded-lg text-sm transition-all flex items-center justify-between group ${
+                    selectedRegion?.id === r.id 
+                      ? 'bg-blue-600 text-white shadow-md' 
+                      : 'text-slate-600 hover:bg-slate-50 hover:text-blue-600'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Box size={14} className={selectedRegion?.id === r.id ? 'text-blue-100' : 'text-slate-300'} />
+                    <span className="font-medium">{r.name}</span>
+                    {r.imported && (
+                      <span
+                        className={`text-[9px] font-bold uppercase ${selectedRegion?.id === r.id ? 'text-blue-100' : 'text-slate-400'}`}
+                        title="Imported into this browser"
+                      >
+                        Local
+                      </span>
+                    )}
+                  </div>
+                  {selectedRegion?.id === r.id && (
+                    <div className="w-2 h-2 bg-white rounded-full animate-pulse" />
+                  )}
+                </button>
+                {regionProgress[r.id] && (
+                  <div className="mx-3 h-1 bg-slate-100 rounded-full overflow-hidden" title="Loading region data">
+                    <div
+                      className="h-full bg-blue-400 transition-all"
+                      style={{ width: `${Math.max(10, (100 * regionProgress[r.id].done) / regionProgress[r.id].total)}%` }}
+                    />
+                  </div>
                 )}
-              </button>
+              </React.Fragment>
             ))}
             {regions.length === 0 && (
               <p className="text-xs text-slate-400 italic px-3">No regions loaded.</p>
@@ -87,7 +123,40 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </button>
               ))}
               {aquifers.length === 0 && (
-                <p className="text-xs text-slate-400 italic px-3">No aquifers in this region.</p>
+                <p className="text-xs text-slate-400 italic px-3">
+                  {regionProgress[selectedRegion.id] ? 'Loading aquifers...' : 'No aquifers in this region.'}
+                </p>
+              )}
+            </div>
+          </section>
+        )}
+
+        {/* Wells List (Populated only if aquifer selected); check several to compare */}
+        {selectedAquifer && (
+          <section className="animate-in fade-in slide-in-from-top-2 duration-300">
+            <div className="flex items-center space-x-2 mb-3 text-slate-400">
+              <Activity size={16} />
+              <h2 className="text-xs font-bold uppercase tracking-widest">Wells</h2>
+              {selectedWellIds.length > 0 && (
+                <span className="text-[10px] font-semibold text-blue-600">{selectedWellIds.length} selected</span>
+              )}
+            </div>
+            <div className="space-y-0.5 max-h-64 overflow-y-auto">
+              {wells.map(w => (
+                <label
+                  key={w.id}
+                  className="flex items-center space-x-3 px-3 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-50 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedWellIds.includes(w.id)}
+                    onChange={() => onToggleWell(w)}
+                  />
+                  <span className="truncate">{w.name}</span>
+                </label>
+              ))}
+              {wells.length === 0 && (
+                <p className="text-xs text-slate-400 italic px-3">No wells in this aquifer.</p>
               )}
             </div>
           </section>
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Aquifer, Well, Measurement, StorageChangePoint } from '../types';
+import { runWorkerTask, isAbortError } from '../services/workerClient';
+import { VariogramModel } from '../utils/kriging';
+import { buildTimeSteps, TimeStepUnit } from '../utils/dates';
+import { LengthUnit } from '../utils/units';
+
+interface StoragePanelProps {
+  aquifer: Aquifer;
+  wells: Well[];
+  measurements: Measurement[];
+  startDate: string;
+  endDate: string;
+  variogramModel: VariogramModel;
+  maxGapDays: number;
+  lengthUnit: LengthUnit; // Units of the region's heads
+  displayUnit: LengthUnit; // Volumes in acre-ft for feet, m³ for meters
+}
+
+const StoragePanel: React.FC<StoragePanelProps> = ({
+  aquifer,
+  wells,
+  measurements,
+  startDate,
+  endDate,
+  variogramModel,
+  maxGapDays,
+  lengthUnit,
+  displayUnit
+}) => {
+  const [storageCoefficient, setStorageCoefficient] = useState('0.1');
+  const [stepUnit, setStepUnit] = useState<TimeStepUnit>('year');
+  const [result, setResult] = useState<StorageChangePoint[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const isComputing = progress !== null;
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  // Results are stale once the inputs change
+  useEffect(() => {
+    cancel();
+    setResult(null);
+  }, [aquifer, wells, measurements, variogramModel, maxGapDays, lengthUnit]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const compute = () => {
+    const s = parseFloat(storageCoefficient);
+    if (isNaN(s) || s <= 0 || s > 1) {
+      setError('Storage coefficient must be between 0 and 1');
+      return;
+    }
+    setError('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const steps = buildTimeSteps(startDate, endDate, stepUnit);
+    setProgress({ done: 0, total: steps.length });
+
+    // Kriging runs in a worker so the page stays responsive
+    runWorkerTask('storageChange', {
+      aquifer, wells, measurements, steps, storageCoefficient: s, model: variogramModel, maxGapDays, lengthUnit
+    }, {
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress({ done, total })
+    })
+      .then(points => {
+        setResult(points);
+        if (points.length === 0) {
+          setError('Not enough wells with data to krige any time step (or the aquifer has no boundary)');
+        }
+      })
+      .catch(e => {
+        if (!isAbortError(e)) setError(`Storage change failed: ${e instanceof Error ? e.message : e}`);
+      })
+      .finally(() => {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setProgress(null);
+        }
+      });
+  };
+
+  const dataKey = displayUnit === 'ft' ? 'volumeAcreFt' : 'volumeM3';
+  const unitLabel = displayUnit === 'ft' ? 'acre-ft' : 'm³';
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center space-x-4 mb-2 text-xs">
+        <label className="flex items-center space-x-2">
+          <span className="text-slate-500">Storativity / Sy</span>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step="0.01"
+            value={storageCoefficient}
+            onChange={(e) => setStorageCoefficient(e.target.value)}
+            className="w-20 px-2 py-1 border border-slate-300 rounded"
+          />
+        </label>
+        <select
+          value={stepUnit}
+          onChange={(e) => setStepUnit(e.target.value as TimeStepUnit)}
+          className="px-2 py-1 border border-slate-300 rounded"
+        >
+          <option value="year">Yearly steps</option>
+          <option value="month">Monthly steps</option>
+        </select>
+        <span className="text-slate-400">Volume in {unitLabel}</span>
+        {isComputing ? (
+          <button
+            onClick={cancel}
+            className="px-3 py-1 bg-slate-200 text-slate-700 rounded font-semibold hover:bg-slate-300"
+          >
+            Cancel ({progress.done} / {progress.total})
+          </button>
+        ) : (
+          <button
+            onClick={compute}
+            className="px-3 py-1 bg-blue-600 text-white rounded font-semibold hover:bg-blue-700"
+          >
+            Compute
+          </button>
+        )}
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {result && result.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={result.map(p => ({ ...p, date: new Date(p.date).getTime() }))} margin={{ top: 10, right: 30, left: 20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="date"
+                type="number"
+                domain={['auto', 'auto']}
+                tickFormatter={(t) => String(new Date(t).getFullYear())}
+                stroke="#94a3b8"
+                fontSize={11}
+              />
+              <YAxis
+                stroke="#94a3b8"
+                fontSize={11}
+                tickFormatter={(val) => Number(val).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+              />
+              <ReferenceLine y={0} stroke="#cbd5e1" />
+              <Tooltip
+                labelFormatter={(label) => new Date(label).toLocaleDateString()}
+                formatter={(value: number, _name, item: { payload?: Pick<StorageChangePoint, 'wellCount'> }) => [
+                  `${value.toLocaleString(undefined, { maximumFractionDigits: 0 })} ${unitLabel} (${item.payload?.wellCount} wells)`,
+                  'Cumulative change'
+                ]}
+                contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Line type="linear" dataKey={dataKey} stroke="#0891b2" strokeWidth={2} dot={{ r: 2 }} animationDuration={400} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center bg-slate-50 text-slate-400 text-sm italic">
+            {isComputing ? 'Kriging each time step...' : 'Enter a storage coefficient and click Compute.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Scatter, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { Grid3X3, RotateCcw } from 'lucide-react';
+import { WaterTableSurface } from '../types';
+import { VARIOGRAM_MODELS, VariogramModel, VariogramParams, variogramValue } from '../utils/kriging';
+
+interface SurfacePanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  model: VariogramModel;
+  onModelChange: (model: VariogramModel) => void;
+  manualVariogram: VariogramParams | null; // null = auto-fit
+  onManualVariogramChange: (params: VariogramParams | null) => void;
+  surface: WaterTableSurface | null;
+  isComputing: boolean; // Kriging in progress; the last surface stays on show
+}
+
+const SurfacePanel: React.FC<SurfacePanelProps> = ({
+  enabled,
+  onToggle,
+  model,
+  onModelChange,
+  manualVariogram,
+  onManualVariogramChange,
+  surface,
+  isComputing
+}) => {
+  const activeParams = manualVariogram ?? surface?.variogram ?? null;
+
+  // Experimental points plus the model curve for the variogram plot
+  const variogramChart = useMemo(() => {
+    if (!surface || !activeParams) return { bins: [], curve: [] };
+    const bins = surface.experimental.map(b => ({ lag: b.lag, gamma: b.gamma }));
+    const maxLag = bins.length > 0 ? bins[bins.length - 1].lag : activeParams.range;
+    const curve = Array.from({ length: 41 }, (_, i) => {
+      const lag = (maxLag * i) / 40;
+      return { lag, model: variogramValue(activeParams, lag) };
+    });
+    return { bins, curve };
+  }, [surface, activeParams]);
+
+  const updateParam = (key: 'nugget' | 'sill' | 'range', value: string) => {
+    const parsed = parseFloat(value);
+    if (!activeParams || isNaN(parsed) || parsed < 0) return;
+    onManualVariogramChange({ ...activeParams, model, [key]: parsed });
+  };
+
+  return (
+    <div className="bg-white rounded shadow-lg border border-slate-300 p-3 text-xs" style={{ width: '260px' }}>
+      <label className="flex items-center space-x-2 font-semibold text-slate-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+        />
+        <Grid3X3 size={14} className="text-indigo-500" />
+        <span>Water Table Surface (Kriging)</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-slate-500">Variogram</span>
+            <select
+              value={model}
+              onChange={(e) => {
+                const next = e.target.value as VariogramModel;
+                onModelChange(next);
+                if (manualVariogram) onManualVariogramChange({ ...manualVariogram, model: next });
+              }}
+              className="px-2 py-1 border border-slate-300 rounded"
+            >
+              {VARIOGRAM_MODELS.map(m => (
+                <option key={m.value} value={m.value}>{m.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {activeParams && (
+            <div className="grid grid-cols-3 gap-2">
+              {(['nugget', 'sill', 'range'] as const).map(key => (
+                <label key={key} className="flex flex-col text-slate-500">
+                  <span className="capitalize">{key}{key === 'range' ? ' (km)' : ''}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={Number(activeParams[key].toPrecision(4))}
+                    onChange={(e) => updateParam(key, e.target.value)}
+                    className="px-1 py-1 border border-slate-300 rounded text-slate-800"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-slate-500">
+            <span>{manualVariogram ? 'Manual parameters' : 'Auto-fitted parameters'}</span>
+            {manualVariogram && (
+              <button
+                onClick={() => onManualVariogramChange(null)}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-800 font-medium"
+              >
+                <RotateCcw size={12} />
+                <span>Auto-fit</span>
+              </button>
+            )}
+          </div>
+
+          {surface && variogramChart.bins.length > 0 && (
+            <div className="h-28">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                  <XAxis dataKey="lag" type="number" fontSize={9} stroke="#94a3b8" tickFormatter={(v) => v.toFixed(0)} />
+                  <YAxis type="number" fontSize={9} stroke="#94a3b8" tickFormatter={(v) => v.toPrecision(2)} />
+                  <Tooltip
+                    formatter={(value: number) => value.toFixed(2)}
+                    labelFormatter={(label) => `${Number(label).toFixed(1)} km`}
+                  />
+                  <Scatter data={variogramChart.bins} dataKey="gamma" name="Experimental" fill="#6366f1" />
+                  <Line data={variogramChart.curve} dataKey="model" name="Model" stroke="#f59e0b" dot={false} strokeWidth={2} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <p className="text-slate-400">
+            {surface
+              ? `Kriged from ${surface.wellCount} unflagged wells`
+              : isComputing ? 'Kriging...' : 'Need at least 3 unflagged wells on this date'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SurfacePanel;
@@ -1,143 +1,268 @@
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea 
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine
 } from 'recharts';
-import { Measurement, ChartPoint } from '../types';
-import { interpolatePCHIP } from '../utils/interpolation';
+import { ChartPoint, HydrographSeries, QAFlag, SeriesNormalization } from '../types';
+import { buildHydrographPoints, displayTransforms, normalizationOffsets } from '../services/hydrograph';
+import { InterpolationMethod } from '../utils/interpolation';
+import { ValueMode } from '../utils/wells';
+import { seriesColor } from '../utils/colorRamp';
+import { DisplayUnits } from '../utils/units';
 
 interface TimeSeriesChartProps {
-  measurements: Measurement[];
-  wellName: string;
+  series: HydrographSeries[];
+  mode: ValueMode;
+  method: InterpolationMethod;
+  maxGapYears: number | null; // Break the curve across longer gaps; null bridges every gap
+  normalization: SeriesNormalization;
+  flags: Map<string, QAFlag[]>; // QA flags keyed by measurementKey
+  excluded: Set<string>; // Measurement keys left out of the curve
+  units: DisplayUnits;
+  zoom: [number, number] | null; // Visible time window; null shows the whole record
+  onZoomChange: (zoom: [number, number] | null) => void;
+  onToggleExclude: (key: string) => void;
 }
 
-const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ measurements }) => {
-  const chartData = useMemo(() => {
-    if (measurements.length === 0) return [];
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
+  series,
+  mode,
+  method,
+  maxGapYears,
+  normalization,
+  flags,
+  excluded,
+  units,
+  zoom,
+  onZoomChange: setZoom,
+  onToggleExclude
+}) => {
+  // Drag selection in progress
+  const [selection, setSelection] = useState<{ start: number; end: number | null } | null>(null);
 
-    // Sort by date, filtering out invalid dates
-    const sorted = [...measurements]
-      .filter(m => !isNaN(new Date(m.date).getTime()))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const chartData = useMemo(() =>
+    buildHydrographPoints(series, method, maxGapYears, excluded, zoom),
+  [series, method, maxGapYears, excluded, zoom]);
 
-    if (sorted.length === 0) return [];
+  // Series that can be drawn: depth to water needs a ground surface elevation
+  const plotted = useMemo(() =>
+    series.map((s, i) => ({ ...s, index: i })).filter(s => mode !== 'depth' || s.gse !== null),
+  [series, mode]);
 
-    const xValues = sorted.map(m => new Date(m.date).getTime());
-    const yValues = sorted.map(m => m.wte);
+  // Values to plot: elevation as-is or depth below ground surface, less the normalization offset
+  const displayData = useMemo(() => {
+    const toDisplay = displayTransforms(series, mode, units);
+    const offsets = normalizationOffsets(chartData, toDisplay, normalization);
 
-    // If only one point, just return it
-    if (sorted.length === 1) {
-      return [{
-        date: xValues[0],
-        wte: yValues[0],
-        isInterpolated: false
-      }];
-    }
-
-    const minX = Math.min(...xValues);
-    const maxX = Math.max(...xValues);
-    const range = maxX - minX;
-
-    // If range is 0, just return the points
-    if (range === 0) {
-      return sorted.map(m => ({
-        date: new Date(m.date).getTime(),
-        wte: m.wte,
-        isInterpolated: false
-      }));
-    }
-
-    const step = range / 100; // 100 interpolation points
-
-    const targetX: number[] = [];
-    for (let x = minX; x <= maxX; x += step) {
-      targetX.push(x);
-    }
-
-    const interpolatedY = interpolatePCHIP(xValues, yValues, targetX);
+    const transform = (i: number, v: number | null | undefined) => {
+      if (v === null || v === undefined) return null;
+      if (mode === 'depth' && series[i].gse === null) return null;
+      return toDisplay[i](v) - offsets[i];
+    };
 
-    // Combine for charting - keep full precision
-    const points: ChartPoint[] = targetX.map((tx, i) => ({
-      date: tx,
-      wte: interpolatedY[i],
-      isInterpolated: !xValues.includes(tx)
+    return chartData.map(p => ({
+      ...p,
+      value: p.wte.map((v, i) => transform(i, v)),
+      measuredValue: p.seriesIndex !== undefined ? transform(p.seriesIndex, p.measured) : null
     }));
+  }, [chartData, series, mode, normalization, units]);
 
-    // Add actual measurement markers explicitly for better precision in the chart
-    sorted.forEach(m => {
-      points.push({
-        date: new Date(m.date).getTime(),
-        wte: m.wte,
-        isInterpolated: false
-      });
-    });
-
-    return points.sort((a, b) => a.date - b.date);
-  }, [measurements]);
+  const isComparing = series.length > 1;
 
-  if (measurements.length === 0) {
+  if (series.every(s => s.measurements.length === 0)) {
     return (
       <div className="h-full flex items-center justify-center bg-slate-50 text-slate-400 text-sm italic">
-        No measurement data available for this well.
+        No measurement data available for {isComparing ? 'these wells' : 'this well'}.
       </div>
     );
   }
 
+  if (plotted.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center bg-amber-50 text-amber-700 text-sm italic">
+        Ground surface elevation is missing for {isComparing ? 'these wells' : 'this well'}, so depth to water cannot be computed.
+      </div>
+    );
+  }
+
+  // Drag across the chart to zoom into a period
+  const finishSelection = () => {
+    if (selection && selection.end !== null && selection.end !== selection.start) {
+      setZoom([Math.min(selection.start, selection.end), Math.max(selection.start, selection.end)]);
+    }
+    setSelection(null);
+  };
+
   const formatXAxis = (tickItem: number) => {
     const d = new Date(tickItem);
     return `${d.getMonth() + 1}/${d.getFullYear()}`;
   };
 
+  const singleGse = !isComparing && normalization === 'none' && series[0].gse !== null ? series[0].gse * units.factor : null;
+  const valueLabel = normalization !== 'none' ? 'Change' : mode === 'depth' ? 'Depth to water' : 'Elevation';
+  const formatValue = (v: number) => `${Number(v.toFixed(3))} ${units.unit}`;
+
   return (
-    <div className="w-full h-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
-          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-          <XAxis 
-            dataKey="date" 
-            type="number" 
-            domain={['auto', 'auto']}
-            tickFormatter={formatXAxis}
-            stroke="#94a3b8"
-            fontSize={11}
-          />
-          <YAxis 
-            domain={['auto', 'auto']}
-            stroke="#94a3b8"
-            fontSize={11}
-            tickFormatter={(val) => val.toLocaleString()}
-          />
-          <Tooltip 
-            labelFormatter={(label) => new Date(label).toLocaleDateString()}
-            formatter={(value: number) => [`${value} ft`, 'Elevation']}
-            contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-          />
-          {/* Main Interpolated Line - use linear since we already did PCHIP interpolation */}
-          <Line
-            type="linear"
-            dataKey="wte"
-            stroke="#3b82f6"
-            strokeWidth={2}
-            dot={false}
-            animationDuration={400}
-            activeDot={{ r: 6, strokeWidth: 0 }}
-          />
-          {/* Discrete points for actual measurements */}
-          <Line
-            type="linear"
-            dataKey="wte"
-            stroke="transparent"
-            animationDuration={400}
-            dot={(props) => {
-              const { cx, cy, payload } = props;
-              if (payload.isInterpolated) return null;
-              return (
-                <circle key={payload.date} cx={cx} cy={cy} r={4} fill="#1d4ed8" stroke="#fff" strokeWidth={2} />
-              );
+    <div className="w-full h-full flex flex-col">
+      {isComparing && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mb-1 text-xs text-slate-600">
+          {series.map((s, i) => (
+            <span key={s.wellId} className="flex items-center space-x-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: seriesColor(i) }} />
+              <span className={mode === 'depth' && s.gse === null ? 'text-slate-400 line-through' : ''}>{s.wellName}</span>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex-1 min-h-0 relative select-none" title="Drag across the chart to zoom into a period">
+        {zoom && (
+          <button
+            onClick={() => setZoom(null)}
+            className="absolute top-1 right-8 z-10 px-2 py-0.5 bg-white border border-slate-300 rounded text-xs text-slate-600 hover:bg-slate-50"
+          >
+            Reset zoom
+          </button>
+        )}
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={displayData}
+            margin={{ top: 10, right: 30, left: 10, bottom: 10 }}
+            onMouseDown={(state) => {
+              if (state?.activeLabel !== undefined) setSelection({ start: Number(state.activeLabel), end: null });
             }}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+            onMouseMove={(state) => {
+              if (selection && state?.activeLabel !== undefined) setSelection({ ...selection, end: Number(state.activeLabel) });
+            }}
+            onMouseUp={finishSelection}
+            onMouseLeave={() => setSelection(null)}
+          >
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis 
+              dataKey="date" 
+              type="number" 
+              domain={zoom ?? ['auto', 'auto']}
+              allowDataOverflow={!!zoom}
+              tickFormatter={formatXAxis}
+              stroke="#94a3b8"
+              fontSize={11}
+              label={{ value: 'Date', position: 'insideBottom', offset: -8, style: { fill: '#94a3b8', fontSize: 11 } }}
+            />
+            <YAxis 
+              domain={['auto', 'auto']}
+              reversed={mode === 'depth'}
+              stroke="#94a3b8"
+              fontSize={11}
+              tickFormatter={(val) => val.toLocaleString()}
+              label={{ value: `${valueLabel} (${units.unit})`, angle: -90, position: 'insideLeft', offset: 0, style: { fill: '#94a3b8', fontSize: 11, textAnchor: 'middle' } }}
+            />
+            <Tooltip 
+              content={({ active, payload, label }) => {
+                if (!active || !payload || payload.length === 0) return null;
+                const point = payload[0].payload;
+                const pointFlags = point.key ? flags.get(point.key) : undefined;
+                // A measurement describes itself; elsewhere list each curve at the date
+                const rows = point.seriesIndex !== undefined && point.measuredValue !== null
+                  ? [{ index: point.seriesIndex as number, value: point.measuredValue as number, interpolated: false }]
+                  : plotted
+                      .filter(s => point.value[s.index] !== null)
+                      .map(s => ({ index: s.index, value: point.value[s.index] as number, interpolated: true }));
+                if (rows.length === 0) return null;
+                return (
+                  <div className="bg-white rounded-lg shadow-md px-3 py-2 text-xs max-w-xs">
+                    <p className="font-semibold text-slate-700">{new Date(label as number).toLocaleDateString()}</p>
+                    {rows.map(r => (
+                      <p key={r.index} style={{ color: isComparing ? seriesColor(r.index) : '#1d4ed8' }}>
+                        {isComparing ? series[r.index].wellName : valueLabel}: {formatValue(r.value)}{r.interpolated ? ' (interpolated)' : ''}
+                      </p>
+                    ))}
+                    {pointFlags?.map((f: QAFlag, i: number) => (
+                      <p key={i} className="text-amber-700 mt-1">&#9888; {f.reason}</p>
+                    ))}
+                    {point.isExcluded && <p className="text-slate-500 mt-1">Excluded from interpolation and analysis</p>}
+                    {point.key && <p className="text-slate-400 mt-1">Click the point to {point.isExcluded ? 'include' : 'exclude'} it</p>}
+                  </div>
+                );
+              }}
+            />
+            {/* Ground surface reference (single well in WTE mode only; it is the zero line in depth mode) */}
+            {mode === 'wte' && singleGse !== null && (
+              <ReferenceLine
+                y={singleGse}
+                stroke="#92400e"
+                strokeDasharray="6 3"
+                ifOverflow="extendDomain"
+                label={{ value: 'Ground surface', position: 'insideTopRight', fill: '#92400e', fontSize: 10 }}
+              />
+            )}
+            {selection && selection.end !== null && (
+              <ReferenceArea x1={selection.start} x2={selection.end} />
+            )}
+            {/* Main Interpolated Lines - use linear since we already interpolated */}
+            {plotted.map(s => (
+              <Line
+                key={`curve-${s.wellId}`}
+                type="linear"
+                dataKey={(p) => p.value[s.index]}
+                stroke={seriesColor(s.index)}
+                strokeWidth={2}
+                dot={false}
+                animationDuration={400}
+                activeDot={false}
+              />
+            ))}
+            {/* Discrete points for actual measurements */}
+            {plotted.map(s => (
+              <Line
+                key={`measured-${s.wellId}`}
+                type="linear"
+                dataKey={(p) => (p.seriesIndex === s.index ? p.measuredValue : null)}
+                stroke="transparent"
+                isAnimationActive={false}
+                activeDot={false}
+                dot={(props) => {
+                  const { cx, cy, payload } = props;
+                  if (payload.seriesIndex !== s.index || cx === undefined || cy === undefined || payload.measuredValue === null) {
+                    return <g key={`empty-${s.index}-${payload.date}`} />;
+                  }
+                  const handleClick = () => onToggleExclude(payload.key);
+                  if (payload.isExcluded) {
+                    return (
+                      <circle key={payload.key} cx={cx} cy={cy} r={4} fill="#fff" stroke="#94a3b8" strokeWidth={2} style={{ cursor: 'pointer' }} onClick={handleClick} />
+                    );
+                  }
+                  if (flags.has(payload.key)) {
+                    // Flagged points drawn as orange diamonds
+                    return (
+                      <path
+                        key={payload.key}
+                        d={`M${cx},${cy - 6} L${cx + 6},${cy} L${cx},${cy + 6} L${cx - 6},${cy} Z`}
+                        fill="#f59e0b"
+                        stroke="#fff"
+                        strokeWidth={1.5}
+                        style={{ cursor: 'pointer' }}
+                        onClick={handleClick}
+                      />
+                    );
+                  }
+                  return (
+                    <circle
+                      key={payload.key}
+                      cx={cx}
+                      cy={cy}
+                      r={4}
+                      fill={isComparing ? seriesColor(s.index) : '#1d4ed8'}
+                      stroke="#fff"
+                      strokeWidth={2}
+                      style={{ cursor: 'pointer' }}
+                      onClick={handleClick}
+                    />
+                  );
+                }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import React from 'react';
+import { CalendarClock, Table } from 'lucide-react';
+import { WellSlice } from '../types';
+
+interface TimeSlicePanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  date: string;
+  onDateChange: (date: string) => void;
+  maxGapDays: number;
+  onMaxGapDaysChange: (days: number) => void;
+  slices: WellSlice[] | null;
+  onShowTable: () => void;
+}
+
+const TimeSlicePanel: React.FC<TimeSlicePanelProps> = ({
+  enabled,
+  onToggle,
+  date,
+  onDateChange,
+  maxGapDays,
+  onMaxGapDaysChange,
+  slices,
+  onShowTable
+}) => {
+  const estimated = slices?.filter(s => s.wte !== null && !s.isFlagged).length ?? 0;
+  const flagged = slices?.filter(s => s.isFlagged).length ?? 0;
+
+  return (
+    <div className="bg-white rounded shadow-lg border border-slate-300 p-3 text-xs" style={{ width: '260px' }}>
+      <label className="flex items-center space-x-2 font-semibold text-slate-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+        />
+        <CalendarClock size={14} className="text-blue-500" />
+        <span>Time Slice</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-slate-500">Date</span>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => onDateChange(e.target.value)}
+              className="px-2 py-1 border border-slate-300 rounded"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-slate-500">Max gap (days)</span>
+            <input
+              type="number"
+              min={0}
+              value={maxGapDays}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                if (!isNaN(days) && days >= 0) onMaxGapDaysChange(days);
+              }}
+              className="w-20 px-2 py-1 border border-slate-300 rounded text-right"
+            />
+          </div>
+
+          {slices && (
+            <div className="flex items-center justify-between pt-1">
+              <span className="text-slate-500">
+                {estimated} estimated &middot; <span className="text-amber-600">{flagged} flagged</span>
+              </span>
+              <button
+                onClick={onShowTable}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-800 font-medium"
+              >
+                <Table size={12} />
+                <span>Table</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeSlicePanel;
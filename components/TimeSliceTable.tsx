@@ -0,0 +1,103 @@
+import React from 'react';
+import { X, Download, AlertTriangle } from 'lucide-react';
+import { WellSlice } from '../types';
+import { downloadBlob } from '../utils/download';
+import { DisplayUnits } from '../utils/units';
+import { formatCsv } from '../utils/csv';
+
+interface TimeSliceTableProps {
+  slices: WellSlice[];
+  date: string;
+  aquiferName: string;
+  units: DisplayUnits;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<WellSlice['status'], string> = {
+  'measured': 'Measured',
+  'interpolated': 'Interpolated',
+  'out-of-range': 'Outside record',
+  'no-data': 'No data'
+};
+
+const TimeSliceTable: React.FC<TimeSliceTableProps> = ({ slices, date, aquiferName, units, onClose }) => {
+  const exportCsv = () => {
+    const header = ['well_id', 'well_name', 'lat', 'long', 'date', 'wte', 'unit', 'status', 'nearest_date', 'gap_days', 'flagged'];
+    const lines = slices.map(s => [
+      s.wellId,
+      s.wellName,
+      s.lat,
+      s.lng,
+      date,
+      s.wte !== null ? (s.wte * units.factor).toFixed(2) : '',
+      units.unit,
+      s.status,
+      s.nearestDate ?? '',
+      s.gapDays ?? '',
+      s.isFlagged ? 'yes' : 'no'
+    ]);
+    const blob = new Blob([formatCsv(header, lines)], { type: 'text/csv' });
+    downloadBlob(blob, `time_slice_${date}.csv`);
+  };
+
+  const flaggedCount = slices.filter(s => s.isFlagged).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh] overflow-hidden">
+        <header className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Time Slice: {date}</h2>
+            <p className="text-xs text-slate-500 font-medium">
+              {aquiferName} &middot; {slices.length} wells, {flaggedCount} flagged
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={exportCsv}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100"
+            >
+              <Download size={16} />
+              <span>CSV</span>
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400">
+              <X size={20} />
+            </button>
+          </div>
+        </header>
+
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase sticky top-0">
+              <tr>
+                <th className="text-left px-4 py-2">Well</th>
+                <th className="text-right px-4 py-2">WTE ({units.unit})</th>
+                <th className="text-left px-4 py-2">Status</th>
+                <th className="text-left px-4 py-2">Nearest Measurement</th>
+                <th className="text-right px-4 py-2">Gap (days)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {slices.map(s => (
+                <tr key={s.wellId} className={`border-t border-slate-100 ${s.isFlagged ? 'text-slate-400' : 'text-slate-700'}`}>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center space-x-2">
+                      {s.isFlagged && <AlertTriangle size={12} className="text-amber-500" />}
+                      <span>{s.wellName}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">{s.wte !== null ? (s.wte * units.factor).toFixed(2) : '—'}</td>
+                  <td className="px-4 py-2">{STATUS_LABELS[s.status]}</td>
+                  <td className="px-4 py-2">{s.nearestDate ?? '—'}</td>
+                  <td className="px-4 py-2 text-right">{s.gapDays ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeSliceTable;
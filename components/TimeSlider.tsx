@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Repeat } from 'lucide-react';
+import { buildTimeSteps, TimeStepUnit } from '../utils/dates';
+
+interface TimeSliderProps {
+  startDate: string; // ISO date (YYYY-MM-DD)
+  endDate: string;
+  date: string;
+  onDateChange: (date: string) => void;
+}
+
+const SPEEDS = [
+  { label: '0.5x', interval: 1600 },
+  { label: '1x', interval: 800 },
+  { label: '2x', interval: 400 },
+  { label: '4x', interval: 200 },
+];
+
+const TimeSlider: React.FC<TimeSliderProps> = ({ startDate, endDate, date, onDateChange }) => {
+  const [unit, setUnit] = useState<TimeStepUnit>('year');
+  const [speedIdx, setSpeedIdx] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [loop, setLoop] = useState(false);
+
+  const steps = useMemo(() => buildTimeSteps(startDate, endDate, unit), [startDate, endDate, unit]);
+
+  // Index of the last step at or before the current date
+  const index = useMemo(() => {
+    let idx = 0;
+    for (let i = 0; i < steps.length; i++) {
+      if (steps[i] <= date) idx = i;
+    }
+    return idx;
+  }, [steps, date]);
+
+  // Advance one step per tick while playing
+  useEffect(() => {
+    if (!isPlaying || steps.length === 0) return;
+    const timer = setTimeout(() => {
+      if (index + 1 < steps.length) {
+        onDateChange(steps[index + 1]);
+      } else if (loop) {
+        onDateChange(steps[0]);
+      } else {
+        setIsPlaying(false);
+      }
+    }, SPEEDS[speedIdx].interval);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, steps, loop, speedIdx, onDateChange]);
+
+  if (steps.length < 2) return null;
+
+  const togglePlay = () => {
+    // Restart from the beginning when play is pressed on the last frame
+    if (!isPlaying && index === steps.length - 1) onDateChange(steps[0]);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="bg-white border-t border-slate-200 px-4 py-2 flex items-center space-x-3 text-xs">
+      <button
+        onClick={() => onDateChange(steps[Math.max(0, index - 1)])}
+        className="p-1 rounded hover:bg-slate-100 text-slate-600"
+        title="Previous step"
+      >
+        <SkipBack size={14} />
+      </button>
+      <button
+        onClick={togglePlay}
+        className="p-1.5 rounded-full bg-blue-600 text-white hover:bg-blue-700"
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <button
+        onClick={() => onDateChange(steps[Math.min(steps.length - 1, index + 1)])}
+        className="p-1 rounded hover:bg-slate-100 text-slate-600"
+        title="Next step"
+      >
+        <SkipForward size={14} />
+      </button>
+
+      <span className="font-mono font-semibold text-slate-700 w-20">{date}</span>
+
+      <input
+        type="range"
+        min={0}
+        max={steps.length - 1}
+        value={index}
+        onChange={(e) => onDateChange(steps[parseInt(e.target.value, 10)])}
+        className="flex-1 accent-blue-600"
+      />
+
+      <select
+        value={unit}
+        onChange={(e) => setUnit(e.target.value as TimeStepUnit)}
+        className="px-1 py-0.5 border border-slate-300 rounded"
+        title="Step size"
+      >
+        <option value="month">Monthly</option>
+        <option value="year">Yearly</option>
+      </select>
+      <select
+        value={speedIdx}
+        onChange={(e) => setSpeedIdx(parseInt(e.target.value, 10))}
+        className="px-1 py-0.5 border border-slate-300 rounded"
+        title="Playback speed"
+      >
+        {SPEEDS.map((s, i) => (
+          <option key={s.label} value={i}>{s.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => setLoop(!loop)}
+        className={`p-1 rounded ${loop ? 'bg-blue-100 text-blue-700' : 'text-slate-400 hover:bg-slate-100'}`}
+        title="Loop"
+      >
+        <Repeat size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default TimeSlider;
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { X, ArrowUp, ArrowDown, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { WellTrend } from '../types';
+import { DisplayUnits } from '../utils/units';
+
+interface TrendTableProps {
+  trends: WellTrend[];
+  aquiferName: string;
+  units: DisplayUnits;
+  onSelectWell: (wellId: string) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'wellName' | 'count' | 'recordYears' | 'lastDate' | 'senSlope' | 'pValue';
+
+const COLUMNS: { key: SortKey; label: string; align: 'left' | 'right' }[] = [
+  { key: 'wellName', label: 'Well', align: 'left' },
+  { key: 'senSlope', label: "Sen's Slope", align: 'right' },
+  { key: 'pValue', label: 'MK p-value', align: 'right' },
+  { key: 'count', label: 'Measurements', align: 'right' },
+  { key: 'recordYears', label: 'Record (yr)', align: 'right' },
+  { key: 'lastDate', label: 'Last Measured', align: 'left' },
+];
+
+const DirectionIcon: React.FC<{ trend: WellTrend }> = ({ trend }) => {
+  switch (trend.direction) {
+    case 'rising': return <TrendingUp size={14} className="text-blue-600" />;
+    case 'declining': return <TrendingDown size={14} className="text-red-600" />;
+    case 'no-trend': return <Minus size={14} className="text-slate-400" />;
+    default: return <span className="inline-block w-3.5" />;
+  }
+};
+
+const TrendTable: React.FC<TrendTableProps> = ({ trends, aquiferName, units, onSelectWell, onClose }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('senSlope');
+  const [ascending, setAscending] = useState(true);
+
+  // Nulls (insufficient data) always sort last
+  const sorted = useMemo(() => {
+    return [...trends].sort((a, b) => {
+      const va = a[sortKey];
+      const vb = b[sortKey];
+      if (va === null && vb === null) return 0;
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : (va as number) - (vb as number);
+      return ascending ? cmp : -cmp;
+    });
+  }, [trends, sortKey, ascending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const declining = trends.filter(t => t.direction === 'declining').length;
+  const rising = trends.filter(t => t.direction === 'rising').length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[85vh] overflow-hidden">
+        <header className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Well Trends: {aquiferName}</h2>
+            <p className="text-xs text-slate-500 font-medium">
+              {trends.length} wells &middot; <span className="text-red-600">{declining} declining</span> &middot; <span className="text-blue-600">{rising} rising</span> (Mann-Kendall, p &lt; 0.05)
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase sticky top-0">
+              <tr>
+                {COLUMNS.map(col => (
+                  <th
+                    key={col.key}
+                    onClick={() => toggleSort(col.key)}
+                    className={`px-4 py-2 cursor-pointer select-none hover:text-slate-700 ${col.align === 'right' ? 'text-right' : 'text-left'}`}
+                  >
+                    <span className="inline-flex items-center space-x-1">
+                      <span>{col.key === 'senSlope' ? `${col.label} (${units.unit}/yr)` : col.label}</span>
+                      {sortKey === col.key && (ascending ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(t => (
+                <tr
+                  key={t.wellId}
+                  onClick={() => onSelectWell(t.wellId)}
+                  className={`border-t border-slate-100 cursor-pointer hover:bg-blue-50 ${t.direction === 'insufficient' ? 'text-slate-400' : 'text-slate-700'}`}
+                >
+                  <td className="px-4 py-2">
+                    <div className="flex items-center space-x-2">
+                      <DirectionIcon trend={t} />
+                      <span>{t.wellName}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">{t.senSlope !== null ? (t.senSlope * units.factor).toFixed(3) : '—'}</td>
+                  <td className="px-4 py-2 text-right font-mono">{t.pValue !== null ? t.pValue.toFixed(3) : '—'}</td>
+                  <td className="px-4 py-2 text-right">{t.count}</td>
+                  <td className="px-4 py-2 text-right">{t.recordYears.toFixed(1)}</td>
+                  <td className="px-4 py-2">{t.lastDate ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrendTable;
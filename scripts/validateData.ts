@@ -0,0 +1,145 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { RegionManifestEntry } from '../types';
+import { ColumnMapping, ImportFile, ImportFileType, featuresOf, getRequiredColumns, validateImport } from '../services/importValidation';
+import { describeCsvErrors, readCsv } from '../utils/csv';
+
+/**
+ * Check every region listed in public/data/regions.json with the Data
+ * Manager's import rules and print a report. Exits with status 1 when any
+ * region has errors.
+ *
+ *   npm run validate-data [-- path/to/data]
+ */
+
+interface RegionReport {
+  label: string;
+  errors: string[];
+  warnings: string[];
+  summary: string;
+}
+
+// Each file of a region folder, in the standard format the Data Manager writes
+const FILES: { type: ImportFileType; file: string }[] = [
+  { type: 'region', file: 'region.geojson' },
+  { type: 'aquifer', file: 'aquifers.geojson' },
+  { type: 'wells', file: 'wells.csv' },
+  { type: 'waterLevels', file: 'water_levels.csv' }
+];
+
+// Map each standard column to itself when the file has it
+function standardMapping(type: ImportFileType, columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const { key } of getRequiredColumns(type)) {
+    if (columns.includes(key)) mapping[key] = key;
+  }
+  return mapping;
+}
+
+async function readImportFile(type: ImportFileType, filePath: string, warnings: string[]): Promise<ImportFile> {
+  const name = path.basename(filePath);
+  const content = await readFile(filePath);
+
+  if (name.endsWith('.geojson')) {
+    const data = JSON.parse(content.toString('utf-8'));
+    const columns = new Set<string>();
+    for (const feature of featuresOf(data)) {
+      for (const key of Object.keys(feature.properties ?? {})) columns.add(key);
+    }
+    return { name, data, mapping: standardMapping(type, [...columns]) };
+  }
+
+  const buffer = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+  const { headers, rows, errors } = readCsv(buffer);
+  if (errors.length > 0) {
+    warnings.push(`${name}: ${errors.length} malformed records`, ...describeCsvErrors(errors).map(e => `  ${e}`));
+  }
+  return { name, data: rows, mapping: standardMapping(type, headers) };
+}
+
+async function validateRegion(entry: RegionManifestEntry, publicDir: string): Promise<RegionReport> {
+  const folder = path.join(publicDir, entry.path);
+  const report: RegionReport = { label: `${entry.id} (${entry.path})`, errors: [], warnings: [], summary: '' };
+
+  if (!existsSync(folder)) {
+    report.errors.push(`Folder ${folder} does not exist`);
+    return report;
+  }
+  if (entry.lengthUnit !== undefined && entry.lengthUnit !== 'ft' && entry.lengthUnit !== 'm') {
+    report.warnings.push(`Unknown lengthUnit "${entry.lengthUnit}"; the app will use feet`);
+  }
+
+  const files: Partial<Record<ImportFileType, ImportFile>> = {};
+  for (const { type, file } of FILES) {
+    const filePath = path.join(folder, file);
+    if (!existsSync(filePath)) {
+      report.errors.push(`Missing ${file}`);
+      continue;
+    }
+    try {
+      files[type] = await readImportFile(type, filePath, report.warnings);
+    } catch (e) {
+      report.errors.push(`Could not read ${file}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  if (report.errors.length > 0) return report;
+
+  // Region folders store ISO or US dates, both of which the app reads as is
+  const result = validateImport({
+    region: files.region!,
+    aquifer: files.aquifer!,
+    wells: files.wells!,
+    waterLevels: files.waterLevels!,
+    dateFormat: 'iso'
+  });
+  report.errors.push(...result.errors);
+  report.warnings.push(...result.warnings);
+  report.summary = `${featuresOf(files.aquifer!.data).length} aquifer features, ` +
+    `${files.wells!.data.length} wells, ${files.waterLevels!.data.length} measurements`;
+  return report;
+}
+
+async function main() {
+  const dataDir = path.resolve(process.argv[2] ?? 'public/data');
+  // Manifest paths are URLs under the public folder, e.g. /data/oregon
+  const publicDir = path.dirname(dataDir);
+  const manifestPath = path.join(dataDir, 'regions.json');
+
+  let manifest: RegionManifestEntry[];
+  try {
+    manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+    if (!Array.isArray(manifest)) throw new Error('expected an array of regions');
+  } catch (e) {
+    console.error(`✗ ${manifestPath}: ${e instanceof Error ? e.message : e}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const reports: RegionReport[] = [];
+  const seenIds = new Set<string>();
+  for (const [i, entry] of manifest.entries()) {
+    const missing = (['id', 'path', 'name'] as const).filter(key => !entry?.[key]);
+    if (missing.length > 0) {
+      reports.push({ label: `regions.json entry ${i + 1}`, errors: [`Missing ${missing.join(', ')}`], warnings: [], summary: '' });
+      continue;
+    }
+    const report = await validateRegion(entry, publicDir);
+    if (seenIds.has(entry.id)) report.errors.unshift(`Region ID ${entry.id} is listed more than once in regions.json`);
+    seenIds.add(entry.id);
+    reports.push(report);
+  }
+
+  for (const report of reports) {
+    console.log(`${report.errors.length > 0 ? '✗' : '✓'} ${report.label}${report.summary ? `: ${report.summary}` : ''}`);
+    for (const error of report.errors) console.log(`    error: ${error}`);
+    for (const warning of report.warnings) console.log(`    warning: ${warning}`);
+  }
+
+  const failed = reports.filter(r => r.errors.length > 0).length;
+  const warnings = reports.reduce((n, r) => n + r.warnings.length, 0);
+  console.log(`\n${reports.length} regions checked: ${failed} with errors, ${warnings} warnings`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main();
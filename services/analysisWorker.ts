@@ -0,0 +1,24 @@
+import { runTask, WorkerRequest, WorkerResponse } from './workerTasks';
+
+// A worker runs either one task, terminated when it settles or is cancelled, or the long-lived
+// queue of workerClient, which sends one request at a time
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+// Inputs of each task's last request. Fields the client leaves out are taken from here, so they
+// keep their identity and caches keyed by them (e.g. aquifer masks) carry over between requests.
+const lastInputs = new Map<string, Record<string, unknown>>();
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { id, task, reused } = e.data;
+  const previous = lastInputs.get(task) ?? {};
+  const input = { ...e.data.input };
+  for (const key of reused) input[key] = previous[key];
+  lastInputs.set(task, input);
+
+  try {
+    const result = await runTask(task, input, (done, total) => post({ id, type: 'progress', done, total }));
+    post({ id, type: 'result', result });
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,94 @@
+import { Aquifer, Well, Measurement, CompositePoint, CompositeWeighting, ProgressCallback } from '../types';
+import { computeTimeSlice, usableSlices } from './timeSlice';
+import { aquiferCellCenters } from './waterTableSurface';
+import { depthToWater, hasValidGse } from '../utils/wells';
+
+// Raster used to approximate Thiessen polygon areas
+const THIESSEN_GRID_CELLS = 60;
+
+/**
+ * Thiessen (nearest-well) area of each well clipped to the aquifer, as the
+ * number of grid cells closest to it. Wells outside the aquifer still get
+ * the cells nearest to them.
+ */
+function thiessenCellCounts(wellXY: [number, number][], cells: [number, number][]): number[] {
+  const counts = new Array(wellXY.length).fill(0);
+  for (const [cx, cy] of cells) {
+    let best = 0, bestDist = Infinity;
+    for (let i = 0; i < wellXY.length; i++) {
+      const dx = wellXY[i][0] - cx;
+      const dy = wellXY[i][1] - cy;
+      const d = dx * dx + dy * dy;
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    }
+    counts[best]++;
+  }
+  return counts;
+}
+
+/**
+ * Aquifer-wide hydrograph from every well's time slice at each step. With
+ * 'area' weighting each contributing well is weighted by its Thiessen
+ * polygon clipped to the aquifer, recomputed whenever the set of
+ * contributing wells changes; 'mean' weights wells equally. Falls back to
+ * equal weights when the aquifer has no boundary.
+ */
+export function computeCompositeHydrograph(
+  aquifer: Aquifer,
+  wells: Well[],
+  measurements: Measurement[],
+  steps: string[],
+  weighting: CompositeWeighting,
+  maxGapDays: number,
+  onProgress?: ProgressCallback
+): CompositePoint[] {
+  const grid = weighting === 'area' ? aquiferCellCenters(aquifer, THIESSEN_GRID_CELLS) : null;
+  const wellsById = new Map(wells.map(w => [w.id, w]));
+  const weightCache = new Map<string, number[]>();
+  const points: CompositePoint[] = [];
+  let done = 0;
+
+  for (const date of steps) {
+    onProgress?.(done++, steps.length);
+    const usable = usableSlices(computeTimeSlice(wells, measurements, date, maxGapDays));
+    if (usable.length === 0) continue;
+
+    let weights: number[];
+    if (grid && grid.cells.length > 0) {
+      const key = usable.map(s => s.wellId).join('|');
+      let cached = weightCache.get(key);
+      if (!cached) {
+        cached = thiessenCellCounts(usable.map(s => grid.project(s.lat, s.lng)), grid.cells);
+        weightCache.set(key, cached);
+      }
+      weights = cached;
+    } else {
+      weights = usable.map(() => 1);
+    }
+
+    let wteSum = 0, weightSum = 0, depthSum = 0, depthWeight = 0;
+    usable.forEach((s, i) => {
+      const w = weights[i];
+      wteSum += s.wte! * w;
+      weightSum += w;
+      const well = wellsById.get(s.wellId);
+      if (well && hasValidGse(well)) {
+        depthSum += depthToWater(well.gse, s.wte!) * w;
+        depthWeight += w;
+      }
+    });
+    if (weightSum === 0) continue;
+
+    points.push({
+      date,
+      wellCount: weights.filter(w => w > 0).length,
+      wte: wteSum / weightSum,
+      depth: depthWeight > 0 ? depthSum / depthWeight : null
+    });
+  }
+
+  return points;
+}
@@ -1,5 +1,9 @@
 import shp from 'shpjs';
-import { Region, Aquifer, Well, Measurement } from '../types';
+import { Region, Aquifer, Well, Measurement, RegionManifestEntry, RegionData, ProgressCallback } from '../types';
+import { runWorkerTask } from './workerClient';
+import { ImportedRegion, RegionFiles, getImportedRegion, listImportedRegions } from './importedRegions';
+import { CsvTable } from '../utils/csv';
+import { formatExclusions, localExclusions, parseExclusions } from './exclusions';
 
 interface DataFolder {
   name: string;
@@ -7,7 +11,7 @@ interface DataFolder {
 }
 
 // Calculate bounds from GeoJSON geometry (iterative to avoid stack overflow)
-function calculateBounds(geojson: any): [number, number, number, number] {
+export function calculateBounds(geojson: any): [number, number, number, number] {
   let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
 
   // Collect all geometries
@@ -50,30 +54,6 @@ function calculateBounds(geojson: any): [number, number, number, number] {
   return [minLat, minLng, maxLat, maxLng];
 }
 
-// Parse CSV text into rows
-function parseCSV(text: string): Record<string, string>[] {
-  const lines = text.split('\n').filter(line => line.trim());
-  if (lines.length < 2) return [];
-
-  // Detect delimiter (comma or tab)
-  const firstLine = lines[0];
-  const delimiter = firstLine.includes('\t') ? '\t' : ',';
-
-  const headers = lines[0].split(delimiter).map(h => h.trim());
-  const rows: Record<string, string>[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(delimiter);
-    const row: Record<string, string> = {};
-    headers.forEach((header, idx) => {
-      row[header] = values[idx]?.trim() || '';
-    });
-    rows.push(row);
-  }
-
-  return rows;
-}
-
 // Load shapefile from URL - shpjs handles fetching all components (.shp, .dbf, .prj, .cpg)
 async function loadShapefile(shpPath: string): Promise<any> {
   // shpjs accepts a URL string and automatically fetches .shp, .dbf, .prj, .cpg files
@@ -109,7 +89,10 @@ export async function loadRegions(): Promise<Region[]> {
             id: regionFilename || folder.name,
             name: folder.name,
             geojson: geojson.type === 'FeatureCollection' ? geojson : { type: 'FeatureCollection', features: [geojson] },
-            bounds
+            bounds,
+            lengthUnit: 'ft',
+            verticalDatum: '',
+            path: folder.path
           });
           continue;
         }
@@ -128,7 +111,10 @@ export async function loadRegions(): Promise<Region[]> {
             id: regionFilename || folder.name,
             name: folder.name,
             geojson: geojson.type === 'FeatureCollection' ? geojson : { type: 'FeatureCollection', features: [geojson] },
-            bounds
+            bounds,
+            lengthUnit: 'ft',
+            verticalDatum: '',
+            path: folder.path
           });
         }
       } catch (e) {
@@ -143,8 +129,19 @@ export async function loadRegions(): Promise<Region[]> {
 }
 
 // Load aquifers for a region from aquifers.geojson
-// GeoJSON should have standardized properties: aquifer_id, aquifer_name
 export async function loadAquifers(regionId: string, regionPath: string, wells: Well[]): Promise<Aquifer[]> {
+  try {
+    const response = await fetch(`${regionPath}/aquifers.geojson`);
+    return buildAquifers(regionId, response.ok ? await response.json() : null, wells);
+  } catch (e) {
+    console.warn(`Error loading aquifers for ${regionId}:`, e);
+    return buildAquifers(regionId, null, wells);
+  }
+}
+
+// Aquifers from aquifers.geojson, or from the wells' aquifer IDs when there is no geometry.
+// GeoJSON should have standardized properties: aquifer_id, aquifer_name
+function buildAquifers(regionId: string, geojson: any, wells: Well[]): Aquifer[] {
   const aquifers: Aquifer[] = [];
 
   // Get unique aquifers from well data (fallback)
@@ -155,68 +152,62 @@ export async function loadAquifers(regionId: string, regionPath: string, wells:
     }
   }
 
-  try {
-    const response = await fetch(`${regionPath}/aquifers.geojson`);
-    if (response.ok) {
-      const geojson = await response.json();
-      const featureCollection = geojson.type === 'FeatureCollection'
-        ? geojson
-        : { type: 'FeatureCollection', features: [geojson] };
-
-      // Group features by aquifer_id
-      const aquiferMap = new Map<string, { features: any[]; name: string }>();
-      for (const feature of featureCollection.features) {
-        const props = feature.properties || {};
-        const id = String(props.aquifer_id || 'unknown');
-        const name = props.aquifer_name || `Aquifer ${id}`;
-
-        if (!aquiferMap.has(id)) {
-          aquiferMap.set(id, { features: [], name });
-        }
-        aquiferMap.get(id)!.features.push(feature);
+  if (geojson) {
+    const featureCollection = geojson.type === 'FeatureCollection'
+      ? geojson
+      : { type: 'FeatureCollection', features: [geojson] };
+
+    // Group features by aquifer_id
+    const aquiferMap = new Map<string, { features: any[]; name: string }>();
+    for (const feature of featureCollection.features) {
+      const props = feature.properties || {};
+      const id = String(props.aquifer_id || 'unknown');
+      const name = props.aquifer_name || `Aquifer ${id}`;
+
+      if (!aquiferMap.has(id)) {
+        aquiferMap.set(id, { features: [], name });
       }
+      aquiferMap.get(id)!.features.push(feature);
+    }
+
+    // Create aquifer entries
+    for (const [id, data] of aquiferMap) {
+      const aquiferGeojson = { type: 'FeatureCollection', features: data.features };
+      const bounds = calculateBounds(aquiferGeojson);
+
+      aquifers.push({
+        id,
+        name: data.name,
+        regionId,
+        geojson: aquiferGeojson,
+        bounds
+      });
+    }
+  }
 
-      // Create aquifer entries
-      for (const [id, data] of aquiferMap) {
-        const aquiferGeojson = { type: 'FeatureCollection', features: data.features };
-        const bounds = calculateBounds(aquiferGeojson);
+  // If no geometry loaded, create aquifers from well data
+  if (aquifers.length === 0 && wellAquifers.size > 0) {
+    for (const [id, name] of wellAquifers) {
+      const aquiferWells = wells.filter(w => w.aquiferId === id);
+      if (aquiferWells.length > 0) {
+        const lats = aquiferWells.map(w => w.lat);
+        const lngs = aquiferWells.map(w => w.lng);
+        const bounds: [number, number, number, number] = [
+          Math.min(...lats) - 0.1,
+          Math.min(...lngs) - 0.1,
+          Math.max(...lats) + 0.1,
+          Math.max(...lngs) + 0.1
+        ];
 
         aquifers.push({
           id,
-          name: data.name,
+          name,
           regionId,
-          geojson: aquiferGeojson,
+          geojson: { type: 'FeatureCollection', features: [] },
           bounds
         });
       }
     }
-
-    // If no geometry loaded, create aquifers from well data
-    if (aquifers.length === 0 && wellAquifers.size > 0) {
-      for (const [id, name] of wellAquifers) {
-        const aquiferWells = wells.filter(w => w.aquiferId === id);
-        if (aquiferWells.length > 0) {
-          const lats = aquiferWells.map(w => w.lat);
-          const lngs = aquiferWells.map(w => w.lng);
-          const bounds: [number, number, number, number] = [
-            Math.min(...lats) - 0.1,
-            Math.min(...lngs) - 0.1,
-            Math.max(...lats) + 0.1,
-            Math.max(...lngs) + 0.1
-          ];
-
-          aquifers.push({
-            id,
-            name,
-            regionId,
-            geojson: { type: 'FeatureCollection', features: [] },
-            bounds
-          });
-        }
-      }
-    }
-  } catch (e) {
-    console.warn(`Error loading aquifers for ${regionId}:`, e);
   }
 
   return aquifers;
@@ -224,83 +215,113 @@ export async function loadAquifers(regionId: string, regionPath: string, wells:
 
 // Load wells from CSV
 export async function loadWells(regionPath: string, regionId: string): Promise<Well[]> {
-  const wells: Well[] = [];
-
   try {
     const response = await fetch(`${regionPath}/wells.csv`);
-    if (!response.ok) return wells;
-
-    const text = await response.text();
-    const rows = parseCSV(text);
-
-    for (const row of rows) {
-      // Standard column names: well_id, long, lat, aquifer_id
-      const wellId = row['well_id'] || '';
-      const wellName = row['well_name'] || wellId;
-      const lat = parseFloat(row['lat'] || '0');
-      const lng = parseFloat(row['long'] || '0');
-      const gse = parseFloat(row['gse'] || '0');
-      const aquiferId = row['aquifer_id'] || '';
-      const aquiferName = row['aquifer_name'] || '';
-
-      if (wellId && !isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0) {
-        wells.push({
-          id: wellId,
-          name: wellName,
-          lat,
-          lng,
-          gse,
-          aquiferId,
-          aquiferName,
-          regionId
-        });
-      }
-    }
+    if (!response.ok) return [];
+    const { rows } = await parseCsvBuffer(await response.arrayBuffer(), response.url);
+    return parseWells(rows, regionId);
   } catch (e) {
     console.warn(`Error loading wells for ${regionId}:`, e);
+    return [];
   }
+}
 
+// Wells from wells.csv rows; rows without an ID or coordinates are skipped
+export function parseWells(rows: Record<string, string>[], regionId: string): Well[] {
+  const wells: Well[] = [];
+  for (const row of rows) {
+    // Standard column names: well_id, long, lat, aquifer_id
+    const wellId = row['well_id'] || '';
+    const wellName = row['well_name'] || wellId;
+    const lat = parseFloat(row['lat'] || '0');
+    const lng = parseFloat(row['long'] || '0');
+    const gse = parseFloat(row['gse'] || '0');
+    const aquiferId = row['aquifer_id'] || '';
+    const aquiferName = row['aquifer_name'] || '';
+
+    if (wellId && !isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0) {
+      wells.push({
+        id: wellId,
+        name: wellName,
+        lat,
+        lng,
+        gse,
+        aquiferId,
+        aquiferName,
+        regionId
+      });
+    }
+  }
   return wells;
 }
 
 // Load water level measurements from CSV
 export async function loadMeasurements(regionPath: string, regionId: string): Promise<Measurement[]> {
-  const measurements: Measurement[] = [];
-
   try {
     const response = await fetch(`${regionPath}/water_levels.csv`);
-    if (!response.ok) return measurements;
-
-    const text = await response.text();
-    const rows = parseCSV(text);
-
-    for (const row of rows) {
-      // Standard column names: well_id, date, wte, aquifer_id
-      const wellId = row['well_id'] || '';
-      const wellName = row['well_name'] || '';
-      const date = row['date'] || '';
-      const wte = parseFloat(row['wte'] || '0');
-      const aquiferId = row['aquifer_id'] || '';
-
-      if (wellId && date && !isNaN(wte)) {
-        measurements.push({
-          wellId,
-          wellName,
-          date,
-          wte,
-          aquiferId
-        });
-      }
-    }
+    if (!response.ok) return [];
+    const { rows } = await parseCsvBuffer(await response.arrayBuffer(), response.url);
+    return parseMeasurements(rows, regionId);
   } catch (e) {
     console.warn(`Error loading measurements for ${regionId}:`, e);
+    return [];
   }
+}
 
+// Measurements from water_levels.csv rows; rows without a well, date or level are skipped.
+// Repeats of an identical record are numbered so each keeps its own measurementKey.
+export function parseMeasurements(rows: Record<string, string>[], regionId: string): Measurement[] {
+  const measurements: Measurement[] = [];
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    // Standard column names: well_id, date, wte, aquifer_id
+    const wellId = row['well_id'] || '';
+    const wellName = row['well_name'] || '';
+    const date = row['date'] || '';
+    const wte = parseFloat(row['wte'] || '0');
+    const aquiferId = row['aquifer_id'] || '';
+
+    if (wellId && date && !isNaN(wte)) {
+      const record: Measurement = {
+        wellId,
+        wellName,
+        date,
+        wte,
+        aquiferId,
+        regionId
+      };
+      const identical = `${wellId}|${date}|${wte}`;
+      const occurrence = (counts.get(identical) ?? 0) + 1;
+      counts.set(identical, occurrence);
+      if (occurrence > 1) record.occurrence = occurrence;
+      measurements.push(record);
+    }
+  }
   return measurements;
 }
 
+// Load the measurement keys in a region folder's exclusions.json (optional)
+async function loadSavedExclusions(regionPath: string, regionId: string): Promise<string[]> {
+  try {
+    const response = await fetch(`${regionPath}/exclusions.json`);
+    return response.ok ? parseExclusions(await response.text(), `${regionId}/exclusions.json`) : [];
+  } catch (e) {
+    console.warn(`Error loading exclusions for ${regionId}:`, e);
+    return [];
+  }
+}
+
+// Parse CSV bytes in the worker, reporting malformed records
+async function parseCsvBuffer(buffer: ArrayBuffer, source: string): Promise<CsvTable> {
+  const table = await runWorkerTask('readCsv', { buffer }, { transfer: [buffer] });
+  if (table.errors.length > 0) {
+    console.warn(`${source}: ${table.errors.length} malformed records`, table.errors.slice(0, 5));
+  }
+  return table;
+}
+
 // Load region manifest
-async function loadRegionManifest(): Promise<{ id: string; path: string; name: string }[]> {
+export async function loadRegionManifest(): Promise<RegionManifestEntry[]> {
   try {
     const response = await fetch('/data/regions.json');
     if (response.ok) {
@@ -312,56 +333,175 @@ async function loadRegionManifest(): Promise<{ id: string; path: string; name: s
   return [];
 }
 
-// Load all data
-// Each region folder should contain: region.geojson, aquifers.geojson, wells.csv, water_levels.csv
-export async function loadAllData(): Promise<{
-  regions: Region[];
-  aquifers: Aquifer[];
-  wells: Well[];
-  measurements: Measurement[];
-}> {
-  const regionFolders = await loadRegionManifest();
+// Region for a region imported into the browser
+export function regionFromImport(record: ImportedRegion): Region {
+  const geojson = JSON.parse(record.files['region.geojson']);
+  return {
+    id: record.id,
+    name: record.name,
+    geojson: geojson.type === 'FeatureCollection' ? geojson : { type: 'FeatureCollection', features: [geojson] },
+    bounds: calculateBounds(geojson),
+    lengthUnit: record.lengthUnit,
+    verticalDatum: record.verticalDatum,
+    path: '',
+    imported: true
+  };
+}
 
-  const regions: Region[] = [];
-  const allAquifers: Aquifer[] = [];
-  const allWells: Well[] = [];
-  const allMeasurements: Measurement[] = [];
+// Regions imported into this browser, in their saved order (then by import time);
+// a folder region with the same ID takes precedence
+async function loadImportedRegions(folderIds: Set<string>): Promise<ImportedRegion[]> {
+  try {
+    const records = await listImportedRegions();
+    return records
+      .filter(r => !folderIds.has(r.id))
+      .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || a.importedAt.localeCompare(b.importedAt));
+  } catch (e) {
+    console.warn('Could not load imported regions:', e);
+    return [];
+  }
+}
+
+// Load the region index: the manifest and every region boundary, fetched in parallel, with
+// regions imported into this browser put back at their saved positions (or at the end).
+// Aquifers, wells and water levels are loaded per region with loadRegionData.
+export async function loadRegionIndex(): Promise<Region[]> {
+  const regionFolders = await loadRegionManifest();
 
-  for (const folder of regionFolders) {
-    // Load region boundary from region.geojson
+  const regions = await Promise.all(regionFolders.map(async (folder): Promise<Region | null> => {
     try {
       const response = await fetch(`${folder.path}/region.geojson`);
-      if (response.ok) {
-        const geojson = await response.json();
-        const bounds = calculateBounds(geojson);
-        regions.push({
-          id: folder.id,
-          name: folder.name,
-          geojson: geojson.type === 'FeatureCollection' ? geojson : { type: 'FeatureCollection', features: [geojson] },
-          bounds
-        });
-      }
+      if (!response.ok) return null;
+      const geojson = await response.json();
+      return {
+        id: folder.id,
+        name: folder.name,
+        geojson: geojson.type === 'FeatureCollection' ? geojson : { type: 'FeatureCollection', features: [geojson] },
+        bounds: calculateBounds(geojson),
+        lengthUnit: folder.lengthUnit === 'm' ? 'm' : 'ft',
+        verticalDatum: folder.verticalDatum ?? '',
+        path: folder.path
+      };
     } catch (e) {
       console.warn(`Error loading region ${folder.name}:`, e);
+      return null;
     }
+  }));
+
+  const index = regions.filter((r): r is Region => r !== null);
+  for (const record of await loadImportedRegions(new Set(regionFolders.map(f => f.id)))) {
+    index.splice(Math.min(record.order ?? Infinity, index.length), 0, regionFromImport(record));
+  }
+  return index;
+}
 
-    // Load wells
-    const wells = await loadWells(folder.path, folder.id);
-    for (const w of wells) allWells.push(w);
+// Region contents by region ID; a pending load is shared by every caller
+const regionDataCache = new Map<string, Promise<RegionData>>();
+
+// Files of folder regions changed in this session, read instead of the folder
+// until the changes are extracted into public/data
+const sessionRegionFiles = new Map<string, RegionFiles>();
+
+// Load a region folder's aquifers.geojson, wells.csv and water_levels.csv in parallel, once,
+// along with its exclusions.json. `onProgress` is called as each of the three data files finishes.
+export function loadRegionData(
+  region: Region,
+  onProgress?: ProgressCallback
+): Promise<RegionData> {
+  const cached = regionDataCache.get(region.id);
+  if (cached) return cached;
+
+  let done = 0;
+  const track = <T>(promise: Promise<T>): Promise<T> => promise.then(value => {
+    onProgress?.(++done, 3);
+    return value;
+  });
+
+  let load: Promise<RegionData>;
+  if (region.imported) {
+    load = getImportedRegion(region.id).then(record => {
+      if (!record) throw new Error(`Imported region ${region.id} is no longer stored in this browser`);
+      return parseRegionFiles(region.id, record.files, track);
+    });
+  } else if (sessionRegionFiles.has(region.id)) {
+    load = parseRegionFiles(region.id, sessionRegionFiles.get(region.id)!, track);
+  } else {
+    // Aquifers fall back to the wells' aquifer IDs when there is no aquifers.geojson
+    const wells = track(loadWells(region.path, region.id));
+    load = Promise.all([
+      track(wells.then(w => loadAquifers(region.id, region.path, w))),
+      wells,
+      track(loadMeasurements(region.path, region.id)),
+      loadSavedExclusions(region.path, region.id)
+    ]).then(([aquifers, wells, measurements, exclusions]) => ({ aquifers, wells, measurements, exclusions }));
+  }
+
+  regionDataCache.set(region.id, load);
+  load.catch(() => regionDataCache.delete(region.id));
+  return load;
+}
 
-    // Load aquifers
-    const aquifers = await loadAquifers(folder.id, folder.path, wells);
-    for (const a of aquifers) allAquifers.push(a);
+// Forget a region's loaded contents so the next loadRegionData reads them again
+export function clearRegionDataCache(regionId: string) {
+  regionDataCache.delete(regionId);
+}
 
-    // Load measurements
-    const measurements = await loadMeasurements(folder.path, folder.id);
-    for (const m of measurements) allMeasurements.push(m);
+// Use these files for a folder region for the rest of the session (null to read the folder again)
+export function setSessionRegionFiles(regionId: string, files: RegionFiles | null) {
+  if (files) sessionRegionFiles.set(regionId, files);
+  else sessionRegionFiles.delete(regionId);
+  regionDataCache.delete(regionId);
+}
+
+// The files of a region as text: from this browser for imported regions,
+// otherwise as changed in this session or fetched from its folder (a missing file comes back empty).
+// Exclusions changed in this browser replace the region's exclusions.json.
+export async function loadRegionFiles(region: Region): Promise<RegionFiles> {
+  const local = localExclusions(region.id);
+  const withExclusions = (files: RegionFiles): RegionFiles =>
+    local ? { ...files, 'exclusions.json': formatExclusions(local) } : files;
+
+  if (region.imported) {
+    const record = await getImportedRegion(region.id);
+    if (!record) throw new Error(`Imported region ${region.id} is no longer stored in this browser`);
+    return withExclusions(record.files);
   }
+  const changed = sessionRegionFiles.get(region.id);
+  if (changed) return withExclusions(changed);
 
-  return {
-    regions,
-    aquifers: allAquifers,
-    wells: allWells,
-    measurements: allMeasurements
+  const fetchText = async (name: string) => {
+    const response = await fetch(`${region.path}/${name}`);
+    return response.ok ? response.text() : '';
+  };
+  const [regionGeojson, aquifers, wells, waterLevels, exclusions] = await Promise.all(
+    ['region.geojson', 'aquifers.geojson', 'wells.csv', 'water_levels.csv', 'exclusions.json'].map(fetchText)
+  );
+  const files: RegionFiles = {
+    'region.geojson': regionGeojson,
+    'aquifers.geojson': aquifers,
+    'wells.csv': wells,
+    'water_levels.csv': waterLevels
   };
+  if (exclusions) files['exclusions.json'] = exclusions;
+  return withExclusions(files);
+}
+
+// Parse the files of an imported or changed region with the same rules as a data folder
+async function parseRegionFiles(
+  regionId: string,
+  files: RegionFiles,
+  track: <T>(promise: Promise<T>) => Promise<T>
+): Promise<RegionData> {
+  const encoder = new TextEncoder();
+  const wells = track(parseCsvBuffer(encoder.encode(files['wells.csv']).buffer, `${regionId}/wells.csv`)
+    .then(({ rows }) => parseWells(rows, regionId)));
+  const [aquifers, wellList, measurements] = await Promise.all([
+    // A region folder may have no aquifers.geojson; its file then comes back empty
+    track(wells.then(w => buildAquifers(regionId, files['aquifers.geojson'] ? JSON.parse(files['aquifers.geojson']) : null, w))),
+    wells,
+    track(parseCsvBuffer(encoder.encode(files['water_levels.csv']).buffer, `${regionId}/water_levels.csv`)
+      .then(({ rows }) => parseMeasurements(rows, regionId)))
+  ]);
+  const exclusions = parseExclusions(files['exclusions.json'], `${regionId}/exclusions.json`);
+  return { aquifers, wells: wellList, measurements, exclusions };
 }
@@ -0,0 +1,64 @@
+import { getImportedRegion, saveImportedRegion } from './importedRegions';
+
+// Measurements excluded from interpolation and analysis. A region keeps them in its
+// exclusions.json; changes made in this browser are kept in localStorage, since region
+// folders can't be written, and take precedence over the file.
+const STORAGE_PREFIX = 'aquiferx:exclusions:';
+
+// Measurement keys from an exclusions.json (a JSON array of keys); '' when the region has none
+export function parseExclusions(text: string | undefined, source: string): string[] {
+  if (!text) return [];
+  try {
+    const keys = JSON.parse(text);
+    if (Array.isArray(keys)) return keys.filter((k): k is string => typeof k === 'string');
+  } catch {
+    // Reported below
+  }
+  console.warn(`${source} is not a list of measurement keys; ignored`);
+  return [];
+}
+
+export function formatExclusions(keys: Iterable<string>): string {
+  return JSON.stringify([...keys].sort(), null, 2);
+}
+
+// Exclusions changed in this browser, or null when the region's file still applies
+export function localExclusions(regionId: string): Set<string> | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + regionId);
+    if (raw) return new Set(JSON.parse(raw));
+  } catch (e) {
+    console.warn(`Could not load exclusions for ${regionId}:`, e);
+  }
+  return null;
+}
+
+// Exclusions in effect: this browser's changes, else those saved with the region
+export function loadExclusions(regionId: string, saved: string[]): Set<string> {
+  return localExclusions(regionId) ?? new Set(saved);
+}
+
+// Keep this browser's exclusions for a region; an empty set is kept too, so it overrides the file
+export function saveExclusions(regionId: string, keys: Set<string>) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + regionId, JSON.stringify([...keys]));
+  } catch (e) {
+    console.warn(`Could not save exclusions for ${regionId}:`, e);
+  }
+}
+
+// Forget this browser's exclusions for a region, e.g. once it is deleted or renamed
+export function clearExclusions(regionId: string) {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + regionId);
+  } catch (e) {
+    console.warn(`Could not clear exclusions for ${regionId}:`, e);
+  }
+}
+
+// Write exclusions into the exclusions.json of a region imported into this browser
+export async function storeImportedExclusions(regionId: string, keys: Set<string>): Promise<void> {
+  const record = await getImportedRegion(regionId);
+  if (!record) throw new Error(`Imported region ${regionId} is no longer stored in this browser`);
+  await saveImportedRegion({ ...record, files: { ...record.files, 'exclusions.json': formatExclusions(keys) } });
+}
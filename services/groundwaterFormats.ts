@@ -0,0 +1,113 @@
+import { ColumnMapping, ImportFileType } from './importValidation';
+
+// Layouts of common groundwater downloads, recognised from their columns
+export type DataFormat = 'nwis-sites' | 'nwis-levels' | 'long';
+
+export const DATA_FORMAT_LABELS: Record<DataFormat, string> = {
+  'nwis-sites': 'USGS NWIS site inventory',
+  'nwis-levels': 'USGS NWIS groundwater levels',
+  long: 'site/date/value table (one row per measurement)'
+};
+
+// Candidate source columns for each standard field, best first. Tests get lower-case names.
+type ColumnTest = (column: string) => boolean;
+const is = (...names: string[]): ColumnTest => c => names.includes(c);
+const has = (...parts: string[]): ColumnTest => c => parts.every(p => c.includes(p));
+
+const SITE_ID: ColumnTest[] = [
+  is('well_id'), has('well', 'id'), is('site_no', 'site_id', 'siteid', 'site', 'station_id', 'station_no', 'monitoring_location_id')
+];
+const DATE: ColumnTest[] = [is('date', 'lev_dt'), has('date')];
+const DEPTH: ColumnTest[] = [
+  is('depth', 'dtw', 'lev_va', 'depth_to_water'),
+  c => c.includes('depth') && !c.includes('well') && !c.includes('hole'), // Not the depth of the well itself
+  has('below', 'surface')
+];
+const WTE: ColumnTest[] = [
+  is('wte', 'sl_lev_va'), has('water', 'elev'), has('level', 'elev'),
+  c => c.includes('elevation') && !/ground|land|surface/.test(c), // Not the elevation of the ground
+  has('level'), is('value', 'result')
+];
+const AQUIFER_ID: ColumnTest[] = [is('aquifer_id'), has('aquifer', 'id')];
+
+const CANDIDATES: Record<ImportFileType, Record<string, ColumnTest[]>> = {
+  region: {},
+  aquifer: {
+    aquifer_id: [is('aquifer_id'), has('aquifer', 'id'), is('id')],
+    aquifer_name: [is('aquifer_name'), has('aquifer', 'name'), is('name', 'full_name')]
+  },
+  wells: {
+    well_id: SITE_ID,
+    lat: [is('lat', 'lat_dec', 'dec_lat_va'), has('latitude')],
+    long: [is('long', 'lng', 'lon', 'long_dec', 'dec_long_va'), has('longitude')],
+    aquifer_id: AQUIFER_ID,
+    well_name: [is('well_name', 'station_nm', 'site_name', 'station_name', 'name')],
+    gse: [is('gse', 'alt_va', 'lsd', 'land_surface_altitude'), has('land', 'surface'), has('ground', 'elev'), has('altitude')]
+  },
+  waterLevels: {
+    well_id: SITE_ID,
+    date: DATE,
+    depth: DEPTH,
+    aquifer_id: AQUIFER_ID
+  }
+};
+
+function findColumn(columns: string[], tests: ColumnTest[], taken: Set<string>): string | undefined {
+  const lower = columns.map(c => c.toLowerCase());
+  for (const test of tests) {
+    const idx = lower.findIndex((c, i) => test(c) && !taken.has(columns[i]));
+    if (idx >= 0) return columns[idx];
+  }
+  return undefined;
+}
+
+/**
+ * Guess the column mapping of an uploaded file from common column names,
+ * including those of USGS NWIS downloads (site_no, dec_lat_va, alt_va,
+ * lev_dt, lev_va, sl_lev_va) and state agency site/date/value tables.
+ */
+export function guessColumnMapping(columns: string[], fileType: ImportFileType): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<string>();
+  const assign = (key: string, tests: ColumnTest[]) => {
+    const column = findColumn(columns, tests, taken);
+    if (column) {
+      mapping[key] = column;
+      taken.add(column);
+    }
+  };
+
+  for (const [key, tests] of Object.entries(CANDIDATES[fileType])) assign(key, tests);
+  // Depth columns are claimed first so a generic "level" or "value" column is not taken for both
+  if (fileType === 'waterLevels') assign('wte', WTE);
+  return mapping;
+}
+
+export function detectDataFormat(columns: string[]): DataFormat | null {
+  const lower = new Set(columns.map(c => c.toLowerCase()));
+  if (lower.has('site_no') && lower.has('lev_dt') && (lower.has('lev_va') || lower.has('sl_lev_va'))) return 'nwis-levels';
+  if (lower.has('site_no') && lower.has('dec_lat_va') && lower.has('dec_long_va')) return 'nwis-sites';
+  // A long table repeats each site's location on every measurement
+  const levels = guessColumnMapping(columns, 'waterLevels');
+  const wells = guessColumnMapping(columns, 'wells');
+  if (levels['well_id'] && levels['date'] && (levels['wte'] || levels['depth']) && wells['lat'] && wells['long']) return 'long';
+  return null;
+}
+
+// First row of each site, for a wells list from a table with one row per measurement
+export function uniqueSites(rows: Record<string, string>[], idColumn: string): Record<string, string>[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const id = row[idColumn];
+    if (!id || seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// Water table elevation from a depth below land surface, as CSV text ('' when either is missing)
+export function elevationFromDepth(gse: number | undefined, depth: string): string {
+  const d = parseFloat(depth);
+  if (gse === undefined || !isFinite(gse) || !isFinite(d)) return '';
+  return String(Math.round((gse - d) * 1000) / 1000);
+}
@@ -0,0 +1,157 @@
+import { ChartPoint, HydrographSeries, QAFlag, SeriesNormalization } from '../types';
+import { measurementKey } from './measurementQA';
+import { InterpolationMethod, interpolateWithGaps } from '../utils/interpolation';
+import { depthToWater, ValueMode } from '../utils/wells';
+import { toISODate } from '../utils/dates';
+import { DisplayUnits } from '../utils/units';
+import { CsvValue, formatCsv } from '../utils/csv';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Points for the hydrograph: a 100-step interpolation grid over the window
+ * (the whole record when null), a break inside every gap longer than
+ * `maxGapYears`, and one point per measurement. Every point carries each
+ * series' curve value; curves stop at the ends of their own record and
+ * ignore excluded measurements.
+ */
+export function buildHydrographPoints(
+  series: HydrographSeries[],
+  method: InterpolationMethod,
+  maxGapYears: number | null,
+  excluded: Set<string>,
+  window: [number, number] | null
+): ChartPoint[] {
+  // Sort each record by date, filtering out invalid dates
+  const records = series.map(s => {
+    const sorted = s.measurements
+      .map(m => ({ m, t: new Date(m.date).getTime() }))
+      .filter(r => !isNaN(r.t))
+      .sort((a, b) => a.t - b.t);
+    // Excluded measurements are still plotted, but the curve ignores them
+    const included = sorted.filter(r => !excluded.has(measurementKey(r.m)));
+    return { sorted, xValues: included.map(r => r.t), yValues: included.map(r => r.m.wte) };
+  });
+
+  const allX = records.flatMap(r => r.sorted.map(s => s.t));
+  if (allX.length === 0) return [];
+  // The interpolation grid spans the visible window, so zooming in resolves detail
+  const [minX, maxX] = window ?? [Math.min(...allX), Math.max(...allX)];
+  const inWindow = (t: number) => t >= minX && t <= maxX;
+  const range = maxX - minX;
+  const maxGap = maxGapYears === null ? Infinity : maxGapYears * YEAR_MS;
+
+  const points: ChartPoint[] = [];
+  if (range > 0) {
+    const step = range / 100; // 100 interpolation points
+    for (let x = minX; x <= maxX; x += step) {
+      points.push({ date: x, wte: [], isInterpolated: true });
+    }
+  }
+
+  // Explicit break inside every long gap, even one narrower than the grid step
+  for (const { xValues } of records) {
+    for (let i = 0; i < xValues.length - 1; i++) {
+      const mid = (xValues[i] + xValues[i + 1]) / 2;
+      if (xValues[i + 1] - xValues[i] > maxGap && inWindow(mid)) {
+        points.push({ date: mid, wte: [], isInterpolated: true });
+      }
+    }
+  }
+
+  // Add actual measurement markers explicitly
+  records.forEach((r, seriesIndex) => {
+    for (const { m, t } of r.sorted) {
+      if (!inWindow(t)) continue;
+      const key = measurementKey(m);
+      points.push({ date: t, wte: [], isInterpolated: false, seriesIndex, measured: m.wte, key, isExcluded: excluded.has(key) });
+    }
+  });
+  points.sort((a, b) => a.date - b.date);
+
+  // Evaluate every curve at every point; curves stop at the ends of their own record
+  const dates = points.map(p => p.date);
+  records.forEach(({ xValues, yValues }, i) => {
+    const curve = xValues.length === 0
+      ? dates.map(() => null)
+      : interpolateWithGaps(method, xValues, yValues, dates, maxGap);
+    points.forEach((p, k) => {
+      const inRange = xValues.length > 0 && p.date >= xValues[0] && p.date <= xValues[xValues.length - 1];
+      // Included measurements sit on the curve exactly; excluded ones keep its interpolated value
+      p.wte[i] = p.seriesIndex === i && !p.isExcluded ? p.measured! : inRange ? curve[k] : null;
+    });
+  });
+
+  return points;
+}
+
+// Plotted value of each series' WTE: elevation or depth below ground surface, in display units
+export function displayTransforms(series: HydrographSeries[], mode: ValueMode, units: DisplayUnits): ((wte: number) => number)[] {
+  return series.map(s => (v: number) => (mode === 'depth' ? depthToWater(s.gse!, v) : v) * units.factor);
+}
+
+// Amount taken off each series' plotted values: its first or mean included measurement in the points
+export function normalizationOffsets(
+  points: ChartPoint[],
+  toDisplay: ((wte: number) => number)[],
+  normalization: SeriesNormalization
+): number[] {
+  return toDisplay.map((display, i) => {
+    if (normalization === 'none') return 0;
+    const values = points
+      .filter(p => p.seriesIndex === i && !p.isExcluded)
+      .map(p => display(p.measured!));
+    if (values.length === 0) return 0;
+    return normalization === 'first' ? values[0] : values.reduce((a, b) => a + b, 0) / values.length;
+  });
+}
+
+/**
+ * Measured and interpolated hydrograph values as CSV, one row per well and
+ * point. When normalized, a change column holds the plotted value (WTE or
+ * depth, per `mode`) less the same offset the chart takes off.
+ */
+export function hydrographToCsv(
+  series: HydrographSeries[],
+  points: ChartPoint[],
+  flags: Map<string, QAFlag[]>,
+  units: DisplayUnits,
+  mode: ValueMode,
+  normalization: SeriesNormalization
+): string {
+  const toDisplay = displayTransforms(series, mode, units);
+  const offsets = normalizationOffsets(points, toDisplay, normalization);
+  const change = (i: number, wte: number): CsvValue =>
+    mode === 'depth' && series[i].gse === null ? '' : (toDisplay[i](wte) - offsets[i]).toFixed(3);
+
+  const row = (p: ChartPoint, i: number, wte: number, type: string): CsvValue[] => {
+    const s = series[i];
+    const pointFlags = p.key ? flags.get(p.key) : undefined;
+    return [
+      toISODate(p.date),
+      s.wellId,
+      s.wellName,
+      type,
+      (wte * units.factor).toFixed(3),
+      s.gse !== null ? (depthToWater(s.gse, wte) * units.factor).toFixed(3) : '',
+      units.unit,
+      p.isExcluded ? 'yes' : 'no',
+      pointFlags ? pointFlags.map(f => f.reason).join('; ') : '',
+      ...(normalization === 'none' ? [] : [change(i, wte)])
+    ];
+  };
+
+  const lines: CsvValue[][] = [];
+  for (const p of points) {
+    if (p.seriesIndex !== undefined) {
+      lines.push(row(p, p.seriesIndex, p.measured!, 'measured'));
+    } else {
+      p.wte.forEach((v, i) => {
+        if (v !== null) lines.push(row(p, i, v, 'interpolated'));
+      });
+    }
+  }
+  const headers = ['date', 'well_id', 'well_name', 'type', 'wte', 'depth_to_water', 'unit', 'excluded', 'qa_flags'];
+  if (normalization !== 'none') headers.push(`${mode === 'depth' ? 'depth_to_water' : 'wte'}_change_from_${normalization}`);
+  return formatCsv(headers, lines);
+}
@@ -0,0 +1,423 @@
+import { getPolygons, pointInPolygons, polygonGeometryError } from '../utils/geometry';
+import { isValidDate, normalizeDate } from '../utils/dates';
+import { WGS84, createTransform, geojsonPositions, isGeographic, looksGeographic } from '../utils/crs';
+
+export type ImportFileType = 'region' | 'aquifer' | 'wells' | 'waterLevels';
+
+export interface ColumnMapping {
+  [targetColumn: string]: string; // targetColumn -> sourceColumn
+}
+
+// An uploaded file as validated: GeoJSON for boundaries (already in WGS 84), rows for CSVs
+export interface ImportFile {
+  name: string;
+  data: any;
+  mapping: ColumnMapping;
+  crs?: string; // Coordinate system of well X/Y columns
+}
+
+export interface ImportFiles {
+  region: ImportFile | null;
+  aquifer: ImportFile | null;
+  wells: ImportFile | null;
+  waterLevels: ImportFile | null;
+  dateFormat?: string; // Format of water level dates (see normalizeDate); 'iso' by default
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  droppedMeasurements: number;
+}
+
+// Fields each file must provide; projected well coordinates map onto the same lat/long fields
+export function getRequiredColumns(fileType: ImportFileType, wellsCrs = WGS84): { key: string; label: string; required: boolean }[] {
+  switch (fileType) {
+    case 'region':
+      return []; // Region name is entered manually in Step 1
+    case 'aquifer':
+      return [
+        { key: 'aquifer_id', label: 'Aquifer ID', required: true },
+        { key: 'aquifer_name', label: 'Aquifer Name', required: true }
+      ];
+    case 'wells': {
+      const projected = !isGeographic(wellsCrs);
+      return [
+        { key: 'well_id', label: 'Well ID', required: true },
+        { key: 'lat', label: projected ? 'Y / Northing' : 'Latitude', required: true },
+        { key: 'long', label: projected ? 'X / Easting' : 'Longitude', required: true },
+        { key: 'aquifer_id', label: 'Aquifer ID', required: false },
+        { key: 'well_name', label: 'Well Name', required: false },
+        { key: 'gse', label: 'Ground Surface Elevation', required: false }
+      ];
+    }
+    case 'waterLevels':
+      // Either level will do; depths are converted with the wells' ground surface elevations
+      return [
+        { key: 'well_id', label: 'Well ID', required: true },
+        { key: 'date', label: 'Date', required: true },
+        { key: 'wte', label: 'Water Table Elevation', required: false },
+        { key: 'depth', label: 'Depth to Water', required: false },
+        { key: 'aquifer_id', label: 'Aquifer ID', required: false }
+      ];
+    default:
+      return [];
+  }
+}
+
+// WGS 84 [lng, lat] of each well row, or null when its coordinates are missing
+export function wellPositions(file: ImportFile): ([number, number] | null)[] {
+  const transform = createTransform(file.crs ?? WGS84);
+  const xCol = file.mapping['long'];
+  const yCol = file.mapping['lat'];
+  return (file.data as Record<string, string>[]).map(row => {
+    const x = parseFloat(row[xCol]);
+    const y = parseFloat(row[yCol]);
+    if (!isFinite(x) || !isFinite(y)) return null;
+    const [lng, lat] = transform(x, y);
+    return isFinite(lng) && isFinite(lat) ? [lng, lat] : null;
+  });
+}
+
+export function featuresOf(geojson: any): any[] {
+  return geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+}
+
+// New wells and/or water levels for an existing region, checked against its boundary
+export interface UpdateFiles {
+  regionGeojson: any;
+  aquiferGeojson: any | null; // The region's aquifers.geojson; null when its aquifers come from the wells
+  wells: ImportFile | null;
+  waterLevels: ImportFile | null;
+  dateFormat?: string;
+}
+
+// Up to five examples from a list, for messages
+function examples(values: string[]): string {
+  return values.slice(0, 5).join(', ') + (values.length > 5 ? ', ...' : '');
+}
+
+function mappingErrors(file: ImportFile, fileType: ImportFileType): string[] {
+  const errors = getRequiredColumns(fileType, file.crs)
+    .filter(c => c.required && !file.mapping[c.key])
+    .map(c => `${fileType}: Missing mapping for ${c.label}`);
+  if (fileType === 'waterLevels' && !file.mapping['wte'] && !file.mapping['depth']) {
+    errors.push(`${fileType}: Missing mapping for Water Table Elevation or Depth to Water`);
+  }
+  return errors;
+}
+
+// Well IDs listed more than once in a wells file
+function duplicateWellIds(file: ImportFile): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const row of file.data as Record<string, string>[]) {
+    const id = row[file.mapping['well_id']];
+    if (!id) continue;
+    if (seen.has(id)) duplicates.add(id);
+    seen.add(id);
+  }
+  return [...duplicates];
+}
+
+// IDs of wells (with coordinates) outside the region boundary
+function wellsOutsideRegion(file: ImportFile, positions: ([number, number] | null)[], regionGeojson: any): string[] {
+  const regionPolygons = getPolygons(regionGeojson);
+  return (file.data as Record<string, string>[])
+    .filter((_, i) => positions[i] && !pointInPolygons(positions[i]![0], positions[i]![1], regionPolygons))
+    .map(w => w[file.mapping['well_id']]);
+}
+
+// Aquifers named by wells but missing from the aquifer layer: one line per aquifer ID with a
+// count and sample wells, so a wrongly mapped column doesn't produce one error per well
+function unknownAquiferErrors(file: ImportFile, aquiferIds: Set<string>, limit = 5): string[] {
+  const idCol = file.mapping['well_id'];
+  const aqCol = file.mapping['aquifer_id'];
+  if (!aqCol) return [];
+  const byAquifer = new Map<string, string[]>();
+  for (const row of file.data as Record<string, string>[]) {
+    const aqId = row[aqCol];
+    if (!aqId || aquiferIds.has(aqId)) continue;
+    if (!byAquifer.has(aqId)) byAquifer.set(aqId, []);
+    byAquifer.get(aqId)!.push(row[idCol] || '(no ID)');
+  }
+  const lines = [...byAquifer].slice(0, limit).map(([aqId, wells]) =>
+    `Aquifer ${aqId} is not in the aquifer layer but ${wells.length} wells reference it (${examples(wells)})`);
+  if (byAquifer.size > limit) lines.push(`...and ${byAquifer.size - limit} more unknown aquifer IDs. Check the aquifer ID column mapping.`);
+  return lines;
+}
+
+// A complete number; parseFloat would read '12,5' as 12 and '1.234,5' as 1.234
+const PLAIN_NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+// Values of the mapped numeric columns that are not plain numbers, as "column: value"
+function unreadableNumbers(file: ImportFile, keys: string[]): string[] {
+  const columns = keys.map(key => file.mapping[key]).filter(Boolean);
+  const bad: string[] = [];
+  for (const row of file.data as Record<string, string>[]) {
+    for (const column of columns) {
+      const value = row[column];
+      if (value && !PLAIN_NUMBER.test(value)) bad.push(`${column}: ${value}`);
+    }
+  }
+  return bad;
+}
+
+function numberErrors(file: ImportFile, fileType: 'wells' | 'waterLevels'): string[] {
+  const bad = unreadableNumbers(file, fileType === 'wells' ? ['lat', 'long', 'gse'] : ['wte', 'depth']);
+  if (bad.length === 0) return [];
+  const label = fileType === 'wells' ? 'Wells' : 'Water levels';
+  return [`${label}: ${bad.length} unreadable numbers (${examples(bad)}). Use a decimal point and no thousands separators.`];
+}
+
+// Dates of the given water level rows that can't be read in the chosen format
+function unreadableDates(file: ImportFile, rows: Record<string, string>[], dateFormat = 'iso'): string[] {
+  return rows
+    .map(row => row[file.mapping['date']] ?? '')
+    .filter(date => !isValidDate(normalizeDate(date, dateFormat)))
+    .map(date => date || '(empty)');
+}
+
+// Boundary features that are not closed polygons
+function geometryErrors(file: ImportFile, fileType: 'region' | 'aquifer'): string[] {
+  const errors: string[] = [];
+  featuresOf(file.data).forEach((feature, i) => {
+    const problem = polygonGeometryError(feature.geometry);
+    if (!problem) return;
+    if (fileType === 'region') {
+      errors.push(`Region boundary feature ${i + 1}: ${problem}`);
+    } else {
+      const id = feature.properties?.[file.mapping['aquifer_id']];
+      errors.push(`Aquifer ${id ?? `feature ${i + 1}`}: ${problem}`);
+    }
+  });
+  return errors;
+}
+
+// Aquifer IDs of a layer; features sharing an ID are parts of one aquifer and must share its name
+function aquiferIdsOf(file: ImportFile, errors: string[]): Set<string> {
+  const ids = new Set<string>();
+  const names = new Map<string, string>();
+  for (const feature of featuresOf(file.data)) {
+    const id = feature.properties?.[file.mapping['aquifer_id']];
+    if (!id) continue;
+    ids.add(String(id));
+    const name = String(feature.properties?.[file.mapping['aquifer_name']] ?? '');
+    const known = names.get(String(id));
+    if (known === undefined) names.set(String(id), name);
+    else if (known !== name) errors.push(`Aquifer ID ${id} is used by differently named aquifers (${known}, ${name})`);
+  }
+  return ids;
+}
+
+/**
+ * Check a set of import files: required files and column mappings, boundary
+ * geometry, duplicate IDs, aquifer and well references, coordinates in
+ * latitude/longitude, wells and aquifers outside the region boundary, and
+ * unreadable dates.
+ */
+export function validateImport(files: ImportFiles): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let droppedMeasurements = 0;
+  const { region: regionFile, aquifer: aquiferFile, wells: wellsFile, waterLevels: waterLevelsFile } = files;
+
+  // Check required files
+  if (!regionFile) errors.push('Region file is required');
+  if (!aquiferFile) errors.push('Aquifer file is required');
+  if (!wellsFile) errors.push('Wells file is required');
+  if (!waterLevelsFile) errors.push('Water levels file is required');
+
+  if (!regionFile || !aquiferFile || !wellsFile || !waterLevelsFile) {
+    return { isValid: false, errors, warnings, droppedMeasurements };
+  }
+
+  // Check required mappings; region has none - name comes from Step 1
+  errors.push(
+    ...mappingErrors(aquiferFile, 'aquifer'),
+    ...mappingErrors(wellsFile, 'wells'),
+    ...mappingErrors(waterLevelsFile, 'waterLevels')
+  );
+
+  if (errors.length > 0) {
+    return { isValid: false, errors, warnings, droppedMeasurements };
+  }
+
+  // Boundaries must be closed polygons
+  const aquiferFeatures = featuresOf(aquiferFile.data);
+  errors.push(...geometryErrors(regionFile, 'region'), ...geometryErrors(aquiferFile, 'aquifer'));
+
+  // Get aquifer IDs from aquifer file; features sharing an ID are parts of one aquifer
+  const aquiferIds = aquiferIdsOf(aquiferFile, errors);
+
+  // Get well IDs and check aquifer references
+  const wellIds = new Set<string>();
+  const wellsData = wellsFile.data as Record<string, string>[];
+  const wellIdCol = wellsFile.mapping['well_id'];
+  const wellAqIdCol = wellsFile.mapping['aquifer_id'];
+
+  for (const well of wellsData) {
+    const wellId = well[wellIdCol];
+    if (wellId) wellIds.add(wellId);
+  }
+  errors.push(...unknownAquiferErrors(wellsFile, aquiferIds));
+
+  const duplicateWells = duplicateWellIds(wellsFile);
+  if (duplicateWells.length > 0) {
+    errors.push(`${duplicateWells.length} duplicate well IDs (${examples(duplicateWells)})`);
+  }
+  errors.push(...numberErrors(wellsFile, 'wells'), ...numberErrors(waterLevelsFile, 'waterLevels'));
+
+  if (!wellAqIdCol) {
+    warnings.push('Wells file has no aquifer_id column. Point-in-polygon assignment will be attempted.');
+  }
+
+  // Depths become elevations by subtracting them from each well's ground surface elevation
+  if (waterLevelsFile.mapping['depth'] && !waterLevelsFile.mapping['wte'] && !wellsFile.mapping['gse']) {
+    errors.push('Water levels are depths to water: map the Ground Surface Elevation column of the wells file to convert them.');
+  }
+
+  // Coordinates must be longitude/latitude after reprojection
+  const layers: [string, ImportFile][] = [['Region boundary', regionFile], ['Aquifer boundaries', aquiferFile]];
+  for (const [label, file] of layers) {
+    if (!looksGeographic(geojsonPositions(file.data))) {
+      errors.push(`${label}: coordinates are not latitude/longitude. Select the coordinate system of ${file.name}.`);
+    }
+  }
+  const positions = wellPositions(wellsFile);
+  if (!looksGeographic(positions.filter((p): p is [number, number] => p !== null))) {
+    errors.push('Wells: coordinates are not latitude/longitude. Select the coordinate system in the column mapping.');
+  }
+  if (errors.length > 0) {
+    return { isValid: false, errors, warnings, droppedMeasurements };
+  }
+
+  // Wells and aquifers should fall inside the region boundary
+  const regionPolygons = getPolygons(regionFile.data);
+  const outsideWells = wellsOutsideRegion(wellsFile, positions, regionFile.data);
+  if (outsideWells.length > 0) {
+    warnings.push(`${outsideWells.length} of ${wellsData.length} wells fall outside the region boundary (${examples(outsideWells)}). Check the coordinate system and column mapping.`);
+  }
+
+  // An aquifer overlaps the region when a vertex of either lies inside the other
+  const regionPositions = geojsonPositions(regionFile.data);
+  const outsideAquifers = aquiferFeatures.filter((feature: any) => {
+    const aquiferPolygons = getPolygons(feature);
+    return !geojsonPositions(feature).some(([lng, lat]) => pointInPolygons(lng, lat, regionPolygons)) &&
+      !regionPositions.some(([lng, lat]) => pointInPolygons(lng, lat, aquiferPolygons));
+  });
+  if (outsideAquifers.length > 0) {
+    const ids = outsideAquifers.map((f: any) => f.properties?.[aquiferFile.mapping['aquifer_id']]).join(', ');
+    warnings.push(`${outsideAquifers.length} aquifers lie outside the region boundary (${ids})`);
+  }
+
+  // Check water levels reference valid wells and have readable dates
+  const waterLevelsData = waterLevelsFile.data as Record<string, string>[];
+  const wlWellIdCol = waterLevelsFile.mapping['well_id'];
+  const kept = waterLevelsData.filter(m => wellIds.has(m[wlWellIdCol]));
+  droppedMeasurements = waterLevelsData.length - kept.length;
+  const badDates = unreadableDates(waterLevelsFile, kept, files.dateFormat);
+
+  if (droppedMeasurements > 0) {
+    warnings.push(`${droppedMeasurements} measurements reference non-existent wells and will be dropped`);
+  }
+  if (badDates.length > 0) {
+    errors.push(`${badDates.length} measurements have unreadable dates (${examples(badDates)}). Check the date format.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+    droppedMeasurements
+  };
+}
+
+/**
+ * Check new wells and/or water levels for an existing region: column
+ * mappings, duplicate IDs, aquifer references, coordinates in
+ * latitude/longitude, wells outside the region boundary and unreadable dates. References to wells are checked
+ * when the batch is merged, against the region's wells as well.
+ */
+export function validateUpdate(files: UpdateFiles): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const { wells: wellsFile, waterLevels: waterLevelsFile } = files;
+
+  if (!wellsFile && !waterLevelsFile) {
+    errors.push('Upload new wells, water levels or both');
+    return { isValid: false, errors, warnings, droppedMeasurements: 0 };
+  }
+
+  if (wellsFile) errors.push(...mappingErrors(wellsFile, 'wells'));
+  if (waterLevelsFile) errors.push(...mappingErrors(waterLevelsFile, 'waterLevels'));
+  if (errors.length > 0) {
+    return { isValid: false, errors, warnings, droppedMeasurements: 0 };
+  }
+
+  if (wellsFile) {
+    const duplicateWells = duplicateWellIds(wellsFile);
+    if (duplicateWells.length > 0) {
+      errors.push(`${duplicateWells.length} duplicate well IDs (${examples(duplicateWells)})`);
+    }
+    errors.push(...numberErrors(wellsFile, 'wells'));
+    if (files.aquiferGeojson) {
+      const aquiferIds = new Set<string>(featuresOf(files.aquiferGeojson)
+        .map((f: any) => String(f.properties?.aquifer_id ?? ''))
+        .filter(Boolean));
+      errors.push(...unknownAquiferErrors(wellsFile, aquiferIds));
+    }
+    const positions = wellPositions(wellsFile);
+    if (!looksGeographic(positions.filter((p): p is [number, number] => p !== null))) {
+      errors.push('Wells: coordinates are not latitude/longitude. Select the coordinate system in the column mapping.');
+    } else {
+      const outsideWells = wellsOutsideRegion(wellsFile, positions, files.regionGeojson);
+      if (outsideWells.length > 0) {
+        warnings.push(`${outsideWells.length} of ${wellsFile.data.length} new wells fall outside the region boundary (${examples(outsideWells)}). Check the coordinate system and column mapping.`);
+      }
+    }
+  }
+
+  if (waterLevelsFile) {
+    errors.push(...numberErrors(waterLevelsFile, 'waterLevels'));
+    const badDates = unreadableDates(waterLevelsFile, waterLevelsFile.data, files.dateFormat);
+    if (badDates.length > 0) {
+      errors.push(`${badDates.length} measurements have unreadable dates (${examples(badDates)}). Check the date format.`);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors, warnings, droppedMeasurements: 0 };
+}
+
+/**
+ * Check a replacement boundary or aquifer layer for an existing region:
+ * column mappings, polygon geometry, aquifer IDs and coordinates in
+ * latitude/longitude. `wellAquiferIds` are the aquifers the region's wells
+ * name, which should still exist in a new aquifer layer.
+ */
+export function validateLayer(fileType: 'region' | 'aquifer', file: ImportFile, wellAquiferIds: string[] = []): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (fileType === 'aquifer') {
+    errors.push(...mappingErrors(file, 'aquifer'));
+    if (errors.length > 0) return { isValid: false, errors, warnings, droppedMeasurements: 0 };
+  }
+
+  errors.push(...geometryErrors(file, fileType));
+  if (!looksGeographic(geojsonPositions(file.data))) {
+    errors.push(`Coordinates are not latitude/longitude. Select the coordinate system of ${file.name}.`);
+  }
+
+  if (fileType === 'aquifer') {
+    const ids = aquiferIdsOf(file, errors);
+    if (ids.size === 0) errors.push('No aquifer has an ID');
+    const orphaned = [...new Set(wellAquiferIds)].filter(id => id && !ids.has(id));
+    if (ids.size > 0 && orphaned.length > 0) {
+      warnings.push(`${orphaned.length} aquifers referenced by wells are not in the new layer (${examples(orphaned)})`);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors, warnings, droppedMeasurements: 0 };
+}
@@ -0,0 +1,109 @@
+import JSZip from 'jszip';
+import { LengthUnit } from '../utils/units';
+import { RegionManifestEntry } from '../types';
+
+// Regions imported with the Data Manager, kept in IndexedDB so they survive reloads
+const DB_NAME = 'aquiferx';
+const DB_VERSION = 1;
+const STORE = 'regions';
+
+// The files of a region folder, as text
+export interface RegionFiles {
+  'region.geojson': string;
+  'aquifers.geojson': string;
+  'wells.csv': string;
+  'water_levels.csv': string;
+  'exclusions.json'?: string; // Measurement keys excluded from analysis (see exclusions.ts)
+}
+
+export interface ImportedRegion {
+  id: string; // Folder name
+  name: string;
+  lengthUnit: LengthUnit;
+  verticalDatum: string;
+  files: RegionFiles;
+  importedAt: string; // ISO timestamp
+  order?: number; // Position in the region list as last arranged; unset for regions not yet reordered
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Run one request against the regions store and resolve with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function listImportedRegions(): Promise<ImportedRegion[]> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve([]);
+  return withStore('readonly', store => store.getAll() as IDBRequest<ImportedRegion[]>);
+}
+
+export async function getImportedRegion(id: string): Promise<ImportedRegion | null> {
+  const record = await withStore('readonly', store => store.get(id) as IDBRequest<ImportedRegion | undefined>);
+  return record ?? null;
+}
+
+export async function saveImportedRegion(region: ImportedRegion): Promise<void> {
+  await withStore('readwrite', store => store.put(region));
+}
+
+export async function deleteImportedRegion(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export function manifestEntry(region: ImportedRegion): RegionManifestEntry {
+  return {
+    id: region.id,
+    path: `/data/${region.id}`,
+    name: region.name,
+    lengthUnit: region.lengthUnit,
+    verticalDatum: region.verticalDatum
+  };
+}
+
+/**
+ * Zip in the public/data layout: one folder per region plus a regions.json
+ * listing `manifest` (the static regions) and the given ones. Extracting it
+ * into public/data installs the regions for every user of the app.
+ */
+export function buildRegionZip(regions: ImportedRegion[], manifest: RegionManifestEntry[]): Promise<Blob> {
+  const entries = [...manifest];
+  const zip = new JSZip();
+  for (const region of regions) {
+    // A region already in the manifest keeps its folder
+    let entry = entries.find(r => r.id === region.id);
+    if (!entry) {
+      entry = manifestEntry(region);
+      entries.push(entry);
+    }
+    const folder = zip.folder(entry.path.replace(/^\/data\//, ''));
+    // Files a folder lacks (loaded as '') stay missing rather than becoming empty files
+    for (const [name, content] of Object.entries(region.files)) {
+      if (content) folder?.file(name, content);
+    }
+  }
+  zip.file('regions.json', JSON.stringify(entries, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+}
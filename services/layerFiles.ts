@@ -0,0 +1,97 @@
+import { runWorkerTask, WorkerTaskOptions } from './workerClient';
+import { ColumnMapping, featuresOf } from './importValidation';
+import { WGS84, crsLabel, detectCrsFromGeoJSON, detectCrsFromPrj, geojsonPositions, looksGeographic } from '../utils/crs';
+
+// A boundary or aquifer layer as uploaded, still in its own coordinates
+export interface LayerFile {
+  source: any; // GeoJSON
+  crs: string; // Coordinate system named by the file; WGS 84 when it names none
+  featureCount: number;
+  notes: { msg: string; type: 'info' | 'success' | 'warning' }[]; // What was detected, for the activity log
+}
+
+export function isLayerFileName(name: string): boolean {
+  return /\.(zip|geojson|json)$/i.test(name);
+}
+
+/**
+ * Read a GeoJSON file or a zipped shapefile. The coordinate system comes from
+ * the shapefile's .prj or the GeoJSON's legacy `crs` member; when neither
+ * names one and the coordinates are not latitude/longitude, a note asks for it.
+ */
+export async function readLayerFile(file: File, options: Omit<WorkerTaskOptions, 'transfer'> = {}): Promise<LayerFile> {
+  const notes: LayerFile['notes'] = [];
+  let source: any;
+  let crs = WGS84;
+
+  if (/\.zip$/i.test(file.name)) {
+    // Shapefile in zip - convert to GeoJSON in its own coordinates
+    const buffer = await file.arrayBuffer();
+    const layer = await runWorkerTask('readShapefileZip', { buffer }, { ...options, transfer: [buffer] });
+    if (layer.layerCount > 1) {
+      notes.push({ msg: `Zip contains ${layer.layerCount} shapefiles; using ${layer.name}`, type: 'warning' });
+    }
+    source = layer.geojson;
+
+    if (layer.prj) {
+      const detected = detectCrsFromPrj(layer.prj);
+      if (detected) {
+        crs = detected;
+        notes.push({ msg: `Coordinate system from .prj: ${crsLabel(crs)}`, type: 'info' });
+      } else {
+        notes.push({ msg: 'Could not read the .prj projection; select the coordinate system below', type: 'warning' });
+      }
+    } else if (!looksGeographic(geojsonPositions(source))) {
+      notes.push({ msg: 'No .prj file and coordinates are not latitude/longitude; select the coordinate system below', type: 'warning' });
+    }
+  } else {
+    source = JSON.parse(await file.text());
+
+    // GeoJSON is WGS 84 unless it names another system in the legacy `crs` member
+    crs = detectCrsFromGeoJSON(source) ?? WGS84;
+    if (crs !== WGS84) {
+      notes.push({ msg: `Coordinate system from GeoJSON: ${crsLabel(crs)}`, type: 'info' });
+    } else if (!looksGeographic(geojsonPositions(source))) {
+      notes.push({ msg: 'Coordinates are not latitude/longitude; select the coordinate system below', type: 'warning' });
+    }
+  }
+
+  const featureCount = featuresOf(source).length;
+  notes.push({
+    msg: /\.zip$/i.test(file.name)
+      ? `Converted shapefile to GeoJSON with ${featureCount} features`
+      : `Loaded GeoJSON with ${featureCount} features`,
+    type: 'success'
+  });
+  return { source, crs, featureCount, notes };
+}
+
+// Boundary in the region.geojson layout, tagged with the region's ID and name
+export function standardRegionLayer(geojson: any, regionId: string, regionName: string): any {
+  return {
+    type: 'FeatureCollection',
+    features: featuresOf(geojson).map((f: any) => ({
+      type: 'Feature',
+      properties: {
+        region_id: regionId,
+        region_name: regionName
+      },
+      geometry: f.geometry
+    }))
+  };
+}
+
+// Aquifers in the aquifers.geojson layout, from the properties mapped to aquifer_id and aquifer_name
+export function standardAquiferLayer(geojson: any, mapping: ColumnMapping): any {
+  return {
+    type: 'FeatureCollection',
+    features: featuresOf(geojson).map((f: any) => ({
+      type: 'Feature',
+      properties: {
+        aquifer_id: String(f.properties?.[mapping['aquifer_id']] || ''),
+        aquifer_name: f.properties?.[mapping['aquifer_name']] || ''
+      },
+      geometry: f.geometry
+    }))
+  };
+}
@@ -0,0 +1,142 @@
+import { Well, Measurement, QAFlag } from '../types';
+import { hasValidGse } from '../utils/wells';
+import { LengthUnit, lengthFactor } from '../utils/units';
+import { dateKey } from '../utils/dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QAOptions {
+  unit: LengthUnit; // Units of the data and of the thresholds below
+  maxRatePerDay: number; // Per day between consecutive measurements
+  spikeMadFactor: number; // Spike threshold in robust standard deviations
+  minSpike: number; // Smaller departures are never spikes
+}
+
+export const DEFAULT_QA_OPTIONS: QAOptions = {
+  unit: 'ft',
+  maxRatePerDay: 5,
+  spikeMadFactor: 5,
+  minSpike: 5
+};
+
+// Default thresholds expressed in a region's data units
+export function qaOptionsForUnit(unit: LengthUnit): QAOptions {
+  const f = lengthFactor(DEFAULT_QA_OPTIONS.unit, unit);
+  return {
+    ...DEFAULT_QA_OPTIONS,
+    unit,
+    maxRatePerDay: DEFAULT_QA_OPTIONS.maxRatePerDay * f,
+    minSpike: DEFAULT_QA_OPTIONS.minSpike * f
+  };
+}
+
+// Stable identifier for a measurement. Duplicates on one date are told apart by value, and
+// repeats of an identical record by their occurrence
+export function measurementKey(m: Measurement): string {
+  const key = `${m.wellId}|${m.date}|${m.wte}`;
+  return m.occurrence ? `${key}#${m.occurrence}` : key;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Flag suspect measurements: repeated dates, water above ground surface,
+ * physically implausible rates of change, and isolated spikes relative to
+ * the neighboring measurements. Returns flags keyed by measurementKey.
+ */
+export function runMeasurementQA(
+  wells: Well[],
+  measurements: Measurement[],
+  options: QAOptions = DEFAULT_QA_OPTIONS
+): Map<string, QAFlag[]> {
+  const flags = new Map<string, QAFlag[]>();
+  const addFlag = (m: Measurement, flag: QAFlag) => {
+    const key = measurementKey(m);
+    if (!flags.has(key)) flags.set(key, []);
+    flags.get(key)!.push(flag);
+  };
+
+  const wellsById = new Map(wells.map(w => [w.id, w]));
+  const byWell = new Map<string, { m: Measurement; t: number }[]>();
+  for (const m of measurements) {
+    const t = new Date(m.date).getTime();
+    if (isNaN(t)) continue;
+    if (!byWell.has(m.wellId)) byWell.set(m.wellId, []);
+    byWell.get(m.wellId)!.push({ m, t });
+  }
+
+  for (const [wellId, series] of byWell) {
+    series.sort((a, b) => a.t - b.t);
+    const well = wellsById.get(wellId);
+
+    // Duplicates: every record after the first on the same calendar day, whatever the time of day
+    const seenDays = new Map<string, Measurement>();
+    const unique: { m: Measurement; t: number }[] = [];
+    for (const s of series) {
+      const day = dateKey(s.m.date);
+      const first = seenDays.get(day);
+      if (first) {
+        const detail = first.wte === s.m.wte ? 'same value' : `first record ${first.wte} on ${first.date}`;
+        addFlag(s.m, { type: 'duplicate', reason: `Duplicate measurement on ${day} (${detail})` });
+      } else {
+        seenDays.set(day, s.m);
+        unique.push(s);
+      }
+    }
+
+    // Above ground surface
+    if (well && hasValidGse(well)) {
+      for (const { m } of unique) {
+        if (m.wte > well.gse) {
+          addFlag(m, { type: 'above-ground', reason: `WTE ${m.wte} is ${(m.wte - well.gse).toFixed(2)} ${options.unit} above ground surface (${well.gse})` });
+        }
+      }
+    }
+
+    // Implausible rate of change since the previous measurement
+    for (let i = 1; i < unique.length; i++) {
+      const days = (unique[i].t - unique[i - 1].t) / DAY_MS;
+      const change = unique[i].m.wte - unique[i - 1].m.wte;
+      const rate = Math.abs(change) / Math.max(days, 1);
+      if (rate > options.maxRatePerDay) {
+        addFlag(unique[i].m, {
+          type: 'jump',
+          reason: `Changed ${change.toFixed(2)} ${options.unit} in ${Math.round(days)} day(s) (${rate.toFixed(2)} ${options.unit}/day)`
+        });
+      }
+    }
+
+    // Spikes: departure from the line through both neighbors, against a robust (MAD) scale
+    if (unique.length >= 5) {
+      const residuals: number[] = [];
+      for (let i = 1; i < unique.length - 1; i++) {
+        const prev = unique[i - 1];
+        const next = unique[i + 1];
+        const f = (unique[i].t - prev.t) / (next.t - prev.t);
+        residuals.push(unique[i].m.wte - (prev.m.wte + f * (next.m.wte - prev.m.wte)));
+      }
+      const med = median(residuals);
+      const mad = median(residuals.map(r => Math.abs(r - med))) * 1.4826;
+      const threshold = Math.max(options.minSpike, options.spikeMadFactor * mad);
+
+      for (let i = 1; i < unique.length - 1; i++) {
+        const r = residuals[i - 1];
+        const prevDiff = unique[i].m.wte - unique[i - 1].m.wte;
+        const nextDiff = unique[i].m.wte - unique[i + 1].m.wte;
+        // A spike departs from both neighbors in the same direction
+        if (Math.abs(r - med) > threshold && Math.sign(prevDiff) === Math.sign(nextDiff)) {
+          addFlag(unique[i].m, {
+            type: 'spike',
+            reason: `Spike of ${r.toFixed(2)} ${options.unit} relative to neighboring measurements`
+          });
+        }
+      }
+    }
+  }
+
+  return flags;
+}
@@ -0,0 +1,120 @@
+import { Measurement, Well, WellSummary } from '../types';
+import { toISODate } from '../utils/dates';
+
+/**
+ * Measurements indexed by well, each well's record sorted by date, with
+ * per-well summaries and the wells of each aquifer. Built once per load so
+ * selections look records up instead of scanning every measurement.
+ */
+export interface MeasurementStore {
+  size: number;
+  byWell: Map<string, Measurement[]>;
+  summaries: Map<string, WellSummary>;
+  aquiferWells: Map<string, string[]>; // aquiferKey -> well IDs
+}
+
+export function aquiferKey(regionId: string, aquiferId: string): string {
+  return `${regionId}/${aquiferId}`;
+}
+
+// Summary of one well's date-sorted, non-empty record
+function summarize(records: Measurement[]): WellSummary {
+  let minWte = Infinity, maxWte = -Infinity;
+  for (const m of records) {
+    minWte = Math.min(minWte, m.wte);
+    maxWte = Math.max(maxWte, m.wte);
+  }
+  return {
+    count: records.length,
+    firstDate: toISODate(new Date(records[0].date).getTime()),
+    lastDate: toISODate(new Date(records[records.length - 1].date).getTime()),
+    minWte,
+    maxWte,
+    latestWte: records[records.length - 1].wte
+  };
+}
+
+function indexRecords(byWell: Map<string, Measurement[]>, aquiferWells: Map<string, string[]>): MeasurementStore {
+  const summaries = new Map<string, WellSummary>();
+  let size = 0;
+  for (const [wellId, records] of byWell) {
+    summaries.set(wellId, summarize(records));
+    size += records.length;
+  }
+  return { size, byWell, summaries, aquiferWells };
+}
+
+export function createMeasurementStore(measurements: Measurement[], wells: Well[]): MeasurementStore {
+  const timed = new Map<string, { t: number; m: Measurement }[]>();
+  let undated = 0;
+  for (const m of measurements) {
+    const t = new Date(m.date).getTime();
+    if (isNaN(t)) {
+      undated++;
+      continue;
+    }
+    let records = timed.get(m.wellId);
+    if (!records) {
+      records = [];
+      timed.set(m.wellId, records);
+    }
+    records.push({ t, m });
+  }
+  if (undated > 0) console.warn(`Skipped ${undated} measurements with unreadable dates`);
+
+  const byWell = new Map<string, Measurement[]>();
+  for (const [wellId, records] of timed) {
+    records.sort((a, b) => a.t - b.t);
+    byWell.set(wellId, records.map(r => r.m));
+  }
+
+  const aquiferWells = new Map<string, string[]>();
+  for (const w of wells) {
+    if (!w.aquiferId) continue;
+    const key = aquiferKey(w.regionId, w.aquiferId);
+    if (!aquiferWells.has(key)) aquiferWells.set(key, []);
+    aquiferWells.get(key)!.push(w.id);
+  }
+
+  return indexRecords(byWell, aquiferWells);
+}
+
+// Store restricted to the measurements passing `keep`; record order is preserved
+export function filterMeasurementStore(store: MeasurementStore, keep: (m: Measurement) => boolean): MeasurementStore {
+  const byWell = new Map<string, Measurement[]>();
+  for (const [wellId, records] of store.byWell) {
+    const kept = records.filter(keep);
+    if (kept.length > 0) byWell.set(wellId, kept);
+  }
+  return indexRecords(byWell, store.aquiferWells);
+}
+
+export function wellMeasurements(store: MeasurementStore, wellId: string): Measurement[] {
+  return store.byWell.get(wellId) ?? [];
+}
+
+// Records of several wells, grouped by well in the given order
+export function measurementsForWells(store: MeasurementStore, wellIds: Iterable<string>): Measurement[] {
+  const out: Measurement[] = [];
+  for (const id of wellIds) {
+    const records = store.byWell.get(id);
+    if (records) for (const m of records) out.push(m);
+  }
+  return out;
+}
+
+export function measurementsForAquifer(store: MeasurementStore, regionId: string, aquiferId: string): Measurement[] {
+  return measurementsForWells(store, store.aquiferWells.get(aquiferKey(regionId, aquiferId)) ?? []);
+}
+
+// First and last measurement dates over a set of wells, or null when none are measured
+export function wellsDateRange(store: MeasurementStore, wellIds: Iterable<string>): { start: string; end: string } | null {
+  let start = '', end = '';
+  for (const id of wellIds) {
+    const summary = store.summaries.get(id);
+    if (!summary) continue;
+    if (!start || summary.firstDate < start) start = summary.firstDate;
+    if (!end || summary.lastDate > end) end = summary.lastDate;
+  }
+  return start ? { start, end } : null;
+}
@@ -14,7 +14,10 @@ export const mockRegions: Region[] = [
           [-113.6, 36.9], [-113.3, 36.9], [-113.3, 37.3], [-113.6, 37.3], [-113.6, 36.9]
         ]]
       }
-    }
+    },
+    lengthUnit: 'ft',
+    verticalDatum: '',
+    path: ''
   }
 ];
 
@@ -45,15 +48,15 @@ export const mockWells: Well[] = [
 ];
 
 export const mockMeasurements: Measurement[] = [
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2003-02-24', wte: 2656.54, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2004-02-25', wte: 2653.83, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2005-02-24', wte: 2652.9, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2006-02-24', wte: 2652.4, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2007-02-23', wte: 2651.91, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2008-02-20', wte: 2651.06, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2009-02-24', wte: 2653.24, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2010-02-23', wte: 2654.89, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2011-02-23', wte: 2656.67, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2012-02-27', wte: 2658, aquiferId: '14' },
-  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2013-02-27', wte: 2658.68, aquiferId: '14' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2003-02-24', wte: 2656.54, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2004-02-25', wte: 2653.83, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2005-02-24', wte: 2652.9, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2006-02-24', wte: 2652.4, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2007-02-23', wte: 2651.91, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2008-02-20', wte: 2651.06, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2009-02-24', wte: 2653.24, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2010-02-23', wte: 2654.89, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2011-02-23', wte: 2656.67, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2012-02-27', wte: 2658, aquiferId: '14', regionId: 'utah' },
+  { wellId: '370037113281401', wellName: '(C-43-14)31bab- 1', date: '2013-02-27', wte: 2658.68, aquiferId: '14', regionId: 'utah' },
 ];
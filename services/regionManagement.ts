@@ -0,0 +1,180 @@
+import { Region, RegionManifestEntry } from '../types';
+import { LengthUnit } from '../utils/units';
+import { ImportedRegion, RegionFiles, buildRegionZip, deleteImportedRegion, getImportedRegion, saveImportedRegion } from './importedRegions';
+import { calculateBounds, clearRegionDataCache, loadRegionFiles, loadRegionManifest, setSessionRegionFiles } from './dataLoader';
+import { clearExclusions, localExclusions, saveExclusions } from './exclusions';
+import { standardRegionLayer } from './layerFiles';
+
+// Region IDs double as folder names under public/data
+const FOLDER_NAME = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Why a region ID can't be used, or null when it can
+export function regionIdError(id: string, otherIds: string[]): string | null {
+  if (!id) return 'The folder name needs at least one letter or digit';
+  if (!FOLDER_NAME.test(id)) return 'Folder names use lowercase letters, digits and single hyphens';
+  if (otherIds.includes(id)) return `A region with folder name "${id}" already exists`;
+  return null;
+}
+
+// Why a display name can't be used, or null when it can
+export function regionNameError(name: string, otherNames: string[]): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Region name is required';
+  if (otherNames.some(n => n.trim().toLowerCase() === trimmed.toLowerCase())) {
+    return `Another region is already named "${trimmed}"`;
+  }
+  return null;
+}
+
+// A region as edited in the region manager
+export interface RegionDraft {
+  region: Region; // As currently loaded
+  id: string;
+  name: string;
+  lengthUnit: LengthUnit;
+  verticalDatum: string;
+  deleted: boolean;
+  boundary: any | null; // Replacement boundary in WGS 84; null keeps the current one
+  aquifers: any | null; // Replacement aquifers.geojson (standard properties); null keeps the current one
+}
+
+export function regionDraft(region: Region): RegionDraft {
+  return {
+    region,
+    id: region.id,
+    name: region.name,
+    lengthUnit: region.lengthUnit,
+    verticalDatum: region.verticalDatum,
+    deleted: false,
+    boundary: null,
+    aquifers: null
+  };
+}
+
+// Whether anything but the position of a region changed
+export function isDraftChanged(draft: RegionDraft): boolean {
+  const { region } = draft;
+  return draft.deleted || draft.boundary !== null || draft.aquifers !== null ||
+    draft.id !== region.id || draft.name.trim() !== region.name ||
+    draft.lengthUnit !== region.lengthUnit || draft.verticalDatum.trim() !== region.verticalDatum;
+}
+
+export interface RegionChanges {
+  regions: Region[]; // Remaining regions in their new order
+  stale: string[]; // Previous IDs of regions whose loaded aquifers, wells and water levels are out of date
+  zip: Blob | null; // regions.json plus moved or changed folders, when regions in public/data changed
+  removedFolders: string[]; // public/data folders that no longer belong to a region once the zip is extracted
+}
+
+// IDs a draft may not take: those of every other region, before and after its edits, unless deleted
+export function takenRegionIds(drafts: RegionDraft[], draft: RegionDraft): string[] {
+  return drafts
+    .filter(d => d !== draft && !d.deleted)
+    .flatMap(d => [d.region.id, d.id]);
+}
+
+/**
+ * Apply edited regions, listed in their new order. Regions imported into this
+ * browser are changed in place. Regions in public/data change for this
+ * session, and the returned zip carries the new regions.json and any folder
+ * that moved (renamed regions go to /data/<id>) or got a new layer.
+ */
+export async function applyRegionDrafts(drafts: RegionDraft[]): Promise<RegionChanges> {
+  const manifest = await loadRegionManifest();
+  const regions: Region[] = [];
+  const stale: string[] = [];
+  const entries: RegionManifestEntry[] = [];
+  const changedFolders: ImportedRegion[] = [];
+  const removedFolders: string[] = [];
+  let folderRegionsChanged = false;
+
+  // Deletions first, so a renamed region may take a deleted one's ID
+  for (const { region } of drafts.filter(d => d.deleted)) {
+    if (region.imported) await deleteImportedRegion(region.id);
+    else removedFolders.push(region.path);
+    setSessionRegionFiles(region.id, null);
+    clearExclusions(region.id);
+    stale.push(region.id);
+    if (!region.imported) folderRegionsChanged = true;
+  }
+
+  for (const draft of drafts.filter(d => !d.deleted)) {
+    const { region } = draft;
+    const renamed = draft.id !== region.id;
+    const name = draft.name.trim();
+    const verticalDatum = draft.verticalDatum.trim();
+    const changed = isDraftChanged(draft);
+    if (!region.imported && changed) folderRegionsChanged = true;
+    if (renamed || draft.aquifers) stale.push(region.id);
+
+    // Exclusions follow the region to its new ID (its files carry the saved ones)
+    if (renamed) {
+      const local = localExclusions(region.id);
+      if (local) saveExclusions(draft.id, local);
+      else clearExclusions(draft.id);
+      clearExclusions(region.id);
+      clearRegionDataCache(region.id);
+    }
+
+    // Files are rewritten when a layer changes, and moved along with a renamed folder
+    let files: RegionFiles | null = null;
+    if (draft.boundary || draft.aquifers || (renamed && !region.imported)) {
+      files = { ...await loadRegionFiles(region) };
+      if (draft.boundary) {
+        files['region.geojson'] = JSON.stringify(standardRegionLayer(draft.boundary, draft.id, name), null, 2);
+      }
+      if (draft.aquifers) files['aquifers.geojson'] = JSON.stringify(draft.aquifers, null, 2);
+    }
+
+    const metadata = { id: draft.id, name, lengthUnit: draft.lengthUnit, verticalDatum };
+    if (region.imported) {
+      // The record keeps its place in the list, which regions.json can't hold
+      const order = regions.length;
+      const stored = await getImportedRegion(region.id);
+      if (!stored) throw new Error(`Imported region ${region.id} is no longer stored in this browser`);
+      if (changed || stored.order !== order) {
+        await saveImportedRegion({ ...stored, ...metadata, files: files ?? stored.files, order });
+        if (renamed) await deleteImportedRegion(region.id);
+        if (changed) clearRegionDataCache(draft.id);
+      }
+    } else {
+      entries.push({
+        id: draft.id,
+        path: renamed ? `/data/${draft.id}` : region.path,
+        name,
+        lengthUnit: draft.lengthUnit,
+        verticalDatum
+      });
+      if (files) {
+        changedFolders.push({ ...metadata, files, importedAt: new Date().toISOString() });
+        setSessionRegionFiles(draft.id, files);
+      }
+      if (renamed) {
+        setSessionRegionFiles(region.id, null);
+        removedFolders.push(region.path);
+      }
+    }
+
+    const geojson = draft.boundary ? standardRegionLayer(draft.boundary, draft.id, name) : region.geojson;
+    regions.push({
+      ...region,
+      id: draft.id,
+      path: renamed && !region.imported ? `/data/${draft.id}` : region.path,
+      name,
+      lengthUnit: draft.lengthUnit,
+      verticalDatum,
+      geojson,
+      bounds: draft.boundary ? calculateBounds(geojson) : region.bounds
+    });
+  }
+
+  // Manifest entries whose boundary failed to load stay in regions.json
+  const handled = new Set(drafts.map(d => d.region.id));
+  entries.push(...manifest.filter(entry => !handled.has(entry.id)));
+
+  const order = (list: RegionManifestEntry[]) => list.map(entry => entry.id).join('\n');
+  if (order(entries) !== order(manifest)) folderRegionsChanged = true;
+
+  const zip = folderRegionsChanged ? await buildRegionZip(changedFolders, entries) : null;
+  return { regions, stale, zip, removedFolders };
+}
@@ -0,0 +1,124 @@
+import { CsvValue, formatCsv, parseCsv } from '../utils/csv';
+import { dateKey } from '../utils/dates';
+
+// Coordinates closer than this (degrees) are the same location
+const COORD_TOLERANCE = 1e-6;
+// Water levels closer than this are the same reading
+const WTE_TOLERANCE = 1e-6;
+
+// Columns every wells.csv and water_levels.csv has
+const WELL_COLUMNS = ['well_id', 'lat', 'long', 'aquifer_id'];
+const WATER_LEVEL_COLUMNS = ['well_id', 'date', 'wte', 'aquifer_id'];
+
+export interface MergeCounts {
+  added: number;
+  duplicates: number; // Already present with the same values; skipped
+  conflicts: number; // Already present with different values; the existing record is kept
+}
+
+export interface RegionMergeResult {
+  wellsCsv: string;
+  waterLevelsCsv: string;
+  addedWells: Record<string, string>[]; // Rows appended, in the standard columns
+  addedMeasurements: Record<string, string>[];
+  wells: MergeCounts;
+  measurements: MergeCounts & { unknownWells: number };
+  conflicts: string[]; // One description per conflicting record
+}
+
+// Existing file headers followed by any standard columns they lack and other columns the new rows fill in
+function mergedHeaders(headers: string[], standard: string[], added: Record<string, string>[]): string[] {
+  const filled = added.flatMap(row => Object.keys(row).filter(key => row[key]));
+  return [...new Set([...headers, ...standard, ...filled])];
+}
+
+function toCsv(headers: string[], rows: Record<string, string>[]): string {
+  return formatCsv(headers, rows.map(row => headers.map((h): CsvValue => row[h] ?? '')));
+}
+
+/**
+ * Merge new wells and water levels (already in the standard columns, WGS 84
+ * coordinates and ISO dates) into a region's wells.csv and water_levels.csv.
+ * Existing records are never changed: repeats are skipped and records that
+ * disagree with an existing one are reported as conflicts. Measurements of
+ * wells in neither file are dropped.
+ */
+export function mergeRegionUpdate(
+  current: { wellsCsv: string; waterLevelsCsv: string },
+  update: { wells: Record<string, string>[]; waterLevels: Record<string, string>[] }
+): RegionMergeResult {
+  const wellsTable = parseCsv(current.wellsCsv);
+  const levelsTable = parseCsv(current.waterLevelsCsv);
+  const conflicts: string[] = [];
+
+  // Wells, by ID
+  const wellRows = new Map<string, Record<string, string>>();
+  for (const row of wellsTable.rows) {
+    if (row['well_id']) wellRows.set(row['well_id'], row);
+  }
+  const addedWells: Record<string, string>[] = [];
+  const wellCounts: MergeCounts = { added: 0, duplicates: 0, conflicts: 0 };
+  for (const row of update.wells) {
+    const id = row['well_id'];
+    if (!id) continue;
+    const existing = wellRows.get(id);
+    if (!existing) {
+      wellRows.set(id, row);
+      addedWells.push(row);
+      wellCounts.added++;
+      continue;
+    }
+    const moved = Math.abs(parseFloat(existing['lat']) - parseFloat(row['lat'])) > COORD_TOLERANCE ||
+      Math.abs(parseFloat(existing['long']) - parseFloat(row['long'])) > COORD_TOLERANCE;
+    const reassigned = !!row['aquifer_id'] && !!existing['aquifer_id'] && row['aquifer_id'] !== existing['aquifer_id'];
+    if (moved || reassigned) {
+      wellCounts.conflicts++;
+      conflicts.push(moved
+        ? `Well ${id}: existing location ${existing['lat']}, ${existing['long']}; new ${row['lat']}, ${row['long']}`
+        : `Well ${id}: existing aquifer ${existing['aquifer_id']}; new ${row['aquifer_id']}`);
+    } else {
+      wellCounts.duplicates++;
+    }
+  }
+
+  // Measurements, by well and day
+  const levels = new Map<string, number>();
+  for (const row of levelsTable.rows) {
+    levels.set(`${row['well_id']}|${dateKey(row['date'] ?? '')}`, parseFloat(row['wte']));
+  }
+  const addedMeasurements: Record<string, string>[] = [];
+  const measurementCounts = { added: 0, duplicates: 0, conflicts: 0, unknownWells: 0 };
+  for (const row of update.waterLevels) {
+    const id = row['well_id'];
+    if (!wellRows.has(id)) {
+      measurementCounts.unknownWells++;
+      continue;
+    }
+    const key = `${id}|${dateKey(row['date'])}`;
+    const wte = parseFloat(row['wte']);
+    const existing = levels.get(key);
+    if (existing === undefined) {
+      levels.set(key, wte);
+      // Measurements inherit the well's aquifer when the batch has none
+      addedMeasurements.push({ ...row, aquifer_id: row['aquifer_id'] || wellRows.get(id)!['aquifer_id'] || '' });
+      measurementCounts.added++;
+    } else if (Math.abs(existing - wte) <= WTE_TOLERANCE || (isNaN(existing) && isNaN(wte))) {
+      measurementCounts.duplicates++;
+    } else {
+      measurementCounts.conflicts++;
+      conflicts.push(`Well ${id} on ${dateKey(row['date'])}: existing ${existing}; new ${row['wte']}`);
+    }
+  }
+
+  const wellHeaders = mergedHeaders(wellsTable.headers, WELL_COLUMNS, addedWells);
+  const levelHeaders = mergedHeaders(levelsTable.headers, WATER_LEVEL_COLUMNS, addedMeasurements);
+  return {
+    wellsCsv: toCsv(wellHeaders, [...wellsTable.rows, ...addedWells]),
+    waterLevelsCsv: toCsv(levelHeaders, [...levelsTable.rows, ...addedMeasurements]),
+    addedWells,
+    addedMeasurements,
+    wells: wellCounts,
+    measurements: measurementCounts,
+    conflicts
+  };
+}
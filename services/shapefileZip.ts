@@ -0,0 +1,33 @@
+import shp from 'shpjs';
+import JSZip from 'jszip';
+
+export interface ShapefileLayer {
+  name: string; // Path of the .shp inside the zip
+  layerCount: number; // Number of .shp files in the zip
+  geojson: any; // Coordinates as stored, not reprojected
+  prj: string | null;
+}
+
+// Convert the first shapefile of a zip to GeoJSON; the .prj is returned for the caller to interpret
+export async function readShapefileZip(buffer: ArrayBuffer): Promise<ShapefileLayer> {
+  const zip = await JSZip.loadAsync(buffer);
+  const entries = Object.values(zip.files).filter(f => !f.dir && !f.name.includes('__MACOSX'));
+  const shpEntries = entries.filter(f => f.name.toLowerCase().endsWith('.shp'));
+  if (shpEntries.length === 0) throw new Error('no .shp file found in zip');
+
+  const base = shpEntries[0].name.slice(0, -4).toLowerCase();
+  const part = (ext: string) => entries.find(f => f.name.toLowerCase() === `${base}.${ext}`);
+
+  const geojson = await shp({
+    shp: await shpEntries[0].async('arraybuffer'),
+    dbf: await part('dbf')?.async('arraybuffer'),
+    cpg: await part('cpg')?.async('string')
+  });
+
+  return {
+    name: shpEntries[0].name,
+    layerCount: shpEntries.length,
+    geojson,
+    prj: (await part('prj')?.async('string')) ?? null
+  };
+}
@@ -0,0 +1,102 @@
+import * as XLSX from 'xlsx';
+import { excelSerialToIso } from '../utils/dates';
+
+// One worksheet as a table of text cells, like a parsed CSV
+export interface SheetTable {
+  name: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  headerRow: number; // 1-based row the column names were taken from
+}
+
+// Rows searched for the column names, below any title lines
+const HEADER_SEARCH_ROWS = 20;
+
+export function isSpreadsheetFileName(name: string): boolean {
+  return /\.(xlsx|xls)$/i.test(name);
+}
+
+// Text of a cell. Date-formatted numbers become ISO dates; other numbers keep full precision.
+function cellText(cell: XLSX.CellObject | undefined, date1904: boolean): string {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  switch (cell.t) {
+    case 'n': {
+      const format = typeof cell.z === 'string' ? cell.z : '';
+      if (format && XLSX.SSF.is_date(format)) return excelSerialToIso(cell.v as number, date1904);
+      // Zero-padded IDs (format 00000) would lose their leading zeros
+      if (/^0+$/.test(format) && cell.w) return cell.w;
+      return String(cell.v);
+    }
+    case 'd':
+      return (cell.v as Date).toISOString().slice(0, 10);
+    case 'b':
+      return cell.v ? 'TRUE' : 'FALSE';
+    case 'e':
+      return ''; // #N/A, #DIV/0! and the like
+    default:
+      return String(cell.v).trim();
+  }
+}
+
+// Cells of a sheet by row, from the cells present rather than its declared range (often far too large)
+function sheetGrid(sheet: XLSX.WorkSheet, date1904: boolean): string[][] {
+  const grid: string[][] = [];
+  for (const address of Object.keys(sheet)) {
+    if (address.startsWith('!')) continue;
+    const text = cellText(sheet[address], date1904);
+    if (!text) continue;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    (grid[r] ??= [])[c] = text;
+  }
+  return Array.from(grid, row => Array.from(row ?? [], cell => cell ?? ''));
+}
+
+// The column names are on the first row at least half as wide as the widest near the top
+function findHeaderRow(grid: string[][]): number {
+  const widths = grid.slice(0, HEADER_SEARCH_ROWS).map(row => row.filter(Boolean).length);
+  const widest = Math.max(0, ...widths);
+  const header = widths.findIndex(w => w >= Math.max(2, widest / 2));
+  // A single-column sheet has its names on the first row with anything in it
+  return header >= 0 ? header : widths.findIndex(w => w > 0);
+}
+
+function sheetTable(name: string, grid: string[][]): SheetTable {
+  const headerRow = findHeaderRow(grid);
+  if (headerRow < 0) return { name, headers: [], rows: [], headerRow: 0 };
+
+  const body = grid.slice(headerRow + 1).filter(row => row.some(Boolean));
+  const width = body.reduce((w, row) => Math.max(w, row.length), grid[headerRow].length);
+
+  // Unnamed columns with data are named by their letter; repeated names get a suffix
+  const headers: string[] = [];
+  const columns: number[] = [];
+  for (let c = 0; c < width; c++) {
+    let header = grid[headerRow][c] ?? '';
+    if (!header) {
+      if (!body.some(row => row[c])) continue;
+      header = `Column ${XLSX.utils.encode_col(c)}`;
+    }
+    let unique = header;
+    for (let n = 2; headers.includes(unique); n++) unique = `${header}_${n}`;
+    headers.push(unique);
+    columns.push(c);
+  }
+
+  const rows = body.map(row => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, i) => { record[header] = row[columns[i]] ?? ''; });
+    return record;
+  });
+  return { name, headers, rows, headerRow: headerRow + 1 };
+}
+
+/**
+ * Read every worksheet of an .xlsx or .xls workbook as text tables, in
+ * workbook order. Title lines above the column names are skipped, and cells
+ * formatted as dates become ISO dates, whatever date format they display in.
+ */
+export function readWorkbook(buffer: ArrayBuffer): SheetTable[] {
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', cellNF: true });
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  return workbook.SheetNames.map(name => sheetTable(name, sheetGrid(workbook.Sheets[name], date1904)));
+}
@@ -0,0 +1,78 @@
+import { Well, Measurement, WellSlice } from '../types';
+import { interpolatePCHIP } from '../utils/interpolation';
+import { toISODate } from '../utils/dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_MAX_GAP_DAYS = 365;
+
+// Group measurements by well as sorted [timestamp, wte] series
+export function groupSeriesByWell(measurements: Measurement[]): Map<string, { t: number; wte: number }[]> {
+  const byWell = new Map<string, { t: number; wte: number }[]>();
+  for (const m of measurements) {
+    const t = new Date(m.date).getTime();
+    if (isNaN(t)) continue;
+    if (!byWell.has(m.wellId)) byWell.set(m.wellId, []);
+    byWell.get(m.wellId)!.push({ t, wte: m.wte });
+  }
+  for (const series of byWell.values()) {
+    series.sort((a, b) => a.t - b.t);
+  }
+  return byWell;
+}
+
+/**
+ * Estimate every well's WTE at a common date by interpolating its own record.
+ * Wells are flagged when their nearest measurement is more than `maxGapDays`
+ * from the target date; dates outside a well's record are never extrapolated.
+ */
+export function computeTimeSlice(
+  wells: Well[],
+  measurements: Measurement[],
+  date: string,
+  maxGapDays = DEFAULT_MAX_GAP_DAYS
+): WellSlice[] {
+  const target = new Date(date).getTime();
+  const byWell = groupSeriesByWell(measurements);
+
+  return wells.map(well => {
+    const base = { wellId: well.id, wellName: well.name, lat: well.lat, lng: well.lng };
+    const series = byWell.get(well.id);
+
+    if (isNaN(target) || !series || series.length === 0) {
+      return { ...base, wte: null, status: 'no-data', nearestDate: null, gapDays: null, isFlagged: true };
+    }
+
+    // Nearest measurement by absolute time difference
+    let nearest = series[0];
+    for (const s of series) {
+      if (Math.abs(s.t - target) < Math.abs(nearest.t - target)) nearest = s;
+    }
+    const gapDays = Math.round(Math.abs(nearest.t - target) / DAY_MS);
+    const nearestDate = toISODate(nearest.t);
+    const isFlagged = gapDays > maxGapDays;
+
+    if (target < series[0].t || target > series[series.length - 1].t) {
+      return { ...base, wte: null, status: 'out-of-range', nearestDate, gapDays, isFlagged: true };
+    }
+
+    if (gapDays === 0) {
+      return { ...base, wte: nearest.wte, status: 'measured', nearestDate, gapDays, isFlagged };
+    }
+
+    const [wte] = interpolatePCHIP(series.map(s => s.t), series.map(s => s.wte), [target]);
+    return {
+      ...base,
+      wte: isFinite(wte) ? wte : null,
+      status: 'interpolated',
+      nearestDate,
+      gapDays,
+      isFlagged
+    };
+  });
+}
+
+// Slice rows usable for spatial analysis (estimated and within the allowed gap)
+export function usableSlices(slices: WellSlice[]): WellSlice[] {
+  return slices.filter(s => s.wte !== null && !s.isFlagged);
+}
@@ -0,0 +1,179 @@
+import { Aquifer, WaterTableSurface, WellSlice } from '../types';
+import { usableSlices } from './timeSlice';
+import { createOrdinaryKriging, experimentalVariogram, fitVariogram, KrigingPoint, VariogramModel, VariogramParams } from '../utils/kriging';
+import { createLocalProjection, getPolygons, pointInPolygons } from '../utils/geometry';
+
+// Longest side of the output raster in cells
+export const MAX_GRID_CELLS = 80;
+
+// Cell masks per aquifer geometry and grid size; point-in-polygon on detailed boundaries is the slow part.
+// In a worker this only hits when the geometry object is kept between tasks (see workerClient's longLived).
+const maskCache = new WeakMap<object, Map<string, boolean[]>>();
+
+function getAquiferMask(aquifer: Aquifer, nx: number, ny: number): boolean[] | null {
+  const polygons = getPolygons(aquifer.geojson);
+  if (polygons.length === 0) return null;
+
+  const key = `${nx}x${ny}`;
+  let byGrid = maskCache.get(aquifer.geojson);
+  if (!byGrid) {
+    byGrid = new Map();
+    maskCache.set(aquifer.geojson, byGrid);
+  }
+  const cached = byGrid.get(key);
+  if (cached) return cached;
+
+  const [minLat, minLng, maxLat, maxLng] = aquifer.bounds;
+  const dLat = (maxLat - minLat) / ny;
+  const dLng = (maxLng - minLng) / nx;
+  const mask = new Array(nx * ny);
+  for (let row = 0; row < ny; row++) {
+    const lat = maxLat - (row + 0.5) * dLat;
+    for (let col = 0; col < nx; col++) {
+      mask[row * nx + col] = pointInPolygons(minLng + (col + 0.5) * dLng, lat, polygons);
+    }
+  }
+  byGrid.set(key, mask);
+  return mask;
+}
+
+// Size the grid to keep cells roughly square on the ground
+function gridShape(
+  aquifer: Aquifer,
+  project: (lat: number, lng: number) => [number, number],
+  maxCells: number
+): { nx: number; ny: number } {
+  const [minLat, minLng, maxLat, maxLng] = aquifer.bounds;
+  const [widthKm] = project(minLat, maxLng);
+  const [, heightKm] = project(maxLat, minLng);
+  const spanX = Math.abs(widthKm * 2);
+  const spanY = Math.abs(heightKm * 2);
+  const cellKm = Math.max(spanX, spanY) / maxCells || 1;
+  return {
+    nx: Math.max(2, Math.round(spanX / cellKm)),
+    ny: Math.max(2, Math.round(spanY / cellKm))
+  };
+}
+
+function aquiferProjection(aquifer: Aquifer) {
+  const [minLat, minLng, maxLat, maxLng] = aquifer.bounds;
+  return createLocalProjection((minLat + maxLat) / 2, (minLng + maxLng) / 2);
+}
+
+/**
+ * Projected centers (km) of the grid cells inside an aquifer, used to weight
+ * wells by area. Returns null when the aquifer has no boundary or bounds.
+ */
+export function aquiferCellCenters(
+  aquifer: Aquifer,
+  maxCells = MAX_GRID_CELLS
+): { project: (lat: number, lng: number) => [number, number]; cells: [number, number][] } | null {
+  const [minLat, minLng, maxLat, maxLng] = aquifer.bounds;
+  if (!isFinite(minLat) || !isFinite(maxLat)) return null;
+
+  const project = aquiferProjection(aquifer);
+  const { nx, ny } = gridShape(aquifer, project, maxCells);
+  const mask = getAquiferMask(aquifer, nx, ny);
+  if (!mask) return null;
+
+  const dLat = (maxLat - minLat) / ny;
+  const dLng = (maxLng - minLng) / nx;
+  const cells: [number, number][] = [];
+  for (let row = 0; row < ny; row++) {
+    const lat = maxLat - (row + 0.5) * dLat;
+    for (let col = 0; col < nx; col++) {
+      if (mask[row * nx + col]) cells.push(project(lat, minLng + (col + 0.5) * dLng));
+    }
+  }
+  return { project, cells };
+}
+
+// Project wells to kilometers and average wells sharing a location (they would make the kriging system singular)
+function toKrigingPoints(
+  slices: WellSlice[],
+  project: (lat: number, lng: number) => [number, number]
+): KrigingPoint[] {
+  const byLocation = new Map<string, { x: number; y: number; sum: number; count: number }>();
+  for (const slice of slices) {
+    const wte = slice.wte!;
+    const [x, y] = project(slice.lat, slice.lng);
+    const key = `${x.toFixed(3)},${y.toFixed(3)}`;
+    const entry = byLocation.get(key);
+    if (entry) {
+      entry.sum += wte;
+      entry.count++;
+    } else {
+      byLocation.set(key, { x, y, sum: wte, count: 1 });
+    }
+  }
+  return [...byLocation.values()].map(e => ({ x: e.x, y: e.y, value: e.sum / e.count }));
+}
+
+/**
+ * Interpolate a water table elevation raster over an aquifer with ordinary
+ * kriging of a time slice. Flagged wells are left out. Pass `variogram` to use
+ * fixed parameters, or null to fit `model` to the data. Returns null when
+ * fewer than 3 wells are usable. The grid depends only on the aquifer and
+ * `maxCells`, so surfaces at different dates line up cell for cell.
+ */
+export function buildWaterTableSurface(
+  aquifer: Aquifer,
+  slices: WellSlice[],
+  date: string,
+  model: VariogramModel,
+  variogram: VariogramParams | null,
+  maxCells = MAX_GRID_CELLS
+): WaterTableSurface | null {
+  const values = usableSlices(slices);
+  if (values.length < 3) return null;
+
+  const [minLat, minLng, maxLat, maxLng] = aquifer.bounds;
+  if (!isFinite(minLat) || !isFinite(maxLat)) return null;
+
+  const project = aquiferProjection(aquifer);
+  const points = toKrigingPoints(values, project);
+  if (points.length < 3) return null;
+
+  const params = variogram ?? fitVariogram(points, model);
+  const predict = createOrdinaryKriging(points, params);
+  if (!predict) return null;
+
+  const { nx, ny } = gridShape(aquifer, project, maxCells);
+  const mask = getAquiferMask(aquifer, nx, ny);
+  const dLat = (maxLat - minLat) / ny;
+  const dLng = (maxLng - minLng) / nx;
+
+  const grid: (number | null)[] = new Array(nx * ny).fill(null);
+  let min = Infinity, max = -Infinity;
+
+  for (let row = 0; row < ny; row++) {
+    const lat = maxLat - (row + 0.5) * dLat;
+    for (let col = 0; col < nx; col++) {
+      const lng = minLng + (col + 0.5) * dLng;
+      if (mask && !mask[row * nx + col]) continue;
+
+      const [x, y] = project(lat, lng);
+      const value = predict(x, y);
+      if (!isFinite(value)) continue;
+
+      grid[row * nx + col] = value;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+
+  if (min === Infinity) return null;
+
+  return {
+    bounds: aquifer.bounds,
+    nx,
+    ny,
+    values: grid,
+    min,
+    max,
+    date,
+    wellCount: points.length,
+    variogram: params,
+    experimental: experimentalVariogram(points)
+  };
+}
@@ -0,0 +1,49 @@
+import { Well, Measurement, WellTrend } from '../types';
+import { groupSeriesByWell } from './timeSlice';
+import { mannKendall, sensSlope } from '../utils/trend';
+import { toISODate } from '../utils/dates';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+// Fewer measurements than this give a meaningless Mann-Kendall test
+export const MIN_TREND_MEASUREMENTS = 4;
+export const TREND_SIGNIFICANCE = 0.05;
+
+/**
+ * Trend statistics for each well: Mann-Kendall significance, Sen's slope
+ * (data units per year), record length and last measured date. Wells with
+ * fewer than MIN_TREND_MEASUREMENTS get summary fields only.
+ */
+export function computeWellTrends(wells: Well[], measurements: Measurement[]): WellTrend[] {
+  const byWell = groupSeriesByWell(measurements);
+
+  return wells.map(well => {
+    const series = byWell.get(well.id) ?? [];
+    const count = series.length;
+    const trend: WellTrend = {
+      wellId: well.id,
+      wellName: well.name,
+      count,
+      firstDate: count > 0 ? toISODate(series[0].t) : null,
+      lastDate: count > 0 ? toISODate(series[count - 1].t) : null,
+      recordYears: count > 0 ? (series[count - 1].t - series[0].t) / YEAR_MS : 0,
+      senSlope: null,
+      pValue: null,
+      tau: null,
+      direction: 'insufficient'
+    };
+    if (count < MIN_TREND_MEASUREMENTS || trend.recordYears === 0) return trend;
+
+    const years = series.map(s => s.t / YEAR_MS);
+    const values = series.map(s => s.wte);
+    const mk = mannKendall(values);
+    const slope = sensSlope(years, values);
+
+    trend.senSlope = slope;
+    trend.pValue = mk.pValue;
+    trend.tau = mk.tau;
+    if (mk.pValue >= TREND_SIGNIFICANCE || slope === 0) trend.direction = 'no-trend';
+    else trend.direction = slope > 0 ? 'rising' : 'declining';
+    return trend;
+  });
+}
@@ -0,0 +1,170 @@
+import { ProgressCallback } from '../types';
+import { runTask, WorkerRequest, WorkerResponse, WorkerTaskInput, WorkerTaskName, WorkerTaskResult } from './workerTasks';
+
+export interface WorkerTaskOptions {
+  onProgress?: ProgressCallback;
+  // Aborting terminates a dedicated worker and rejects with an AbortError. In the long-lived worker
+  // a queued task is dropped, and a running one finishes in the background with its result ignored.
+  signal?: AbortSignal;
+  transfer?: Transferable[]; // Buffers to move into the worker instead of copying
+  // Run in the long-lived worker, for short tasks repeated with mostly the same inputs (time
+  // slider frames): unchanged inputs are not copied again and the worker's caches survive
+  longLived?: boolean;
+}
+
+const abortError = () => new DOMException('Task cancelled', 'AbortError');
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+const createWorker = () => new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+
+let nextId = 1;
+
+// Request for `input`, leaving out object fields that are the same as in the task's last request to this worker
+function buildRequest(task: WorkerTaskName, input: object, lastSent: Map<string, Record<string, unknown>>): WorkerRequest {
+  const fields = input as Record<string, unknown>;
+  const previous = lastSent.get(task) ?? {};
+  const sent: Record<string, unknown> = {};
+  const reused: string[] = [];
+  for (const [key, value] of Object.entries(fields)) {
+    if (typeof value === 'object' && value !== null && previous[key] === value) reused.push(key);
+    else sent[key] = value;
+  }
+  lastSent.set(task, fields);
+  return { id: nextId++, task, input: sent, reused };
+}
+
+interface QueuedTask {
+  task: WorkerTaskName;
+  input: object;
+  options: WorkerTaskOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  cancelled: boolean;
+}
+
+// The long-lived worker, its queue and the inputs it holds
+let longLivedWorker: Worker | null = null;
+const longLivedInputs = new Map<string, Record<string, unknown>>();
+const queue: QueuedTask[] = [];
+let running: { id: number; entry: QueuedTask } | null = null;
+
+function runNext() {
+  if (running) return;
+  const entry = queue.shift();
+  if (!entry) return;
+
+  if (!longLivedWorker) {
+    longLivedWorker = createWorker();
+    longLivedInputs.clear();
+    longLivedWorker.onmessage = onLongLivedMessage;
+    longLivedWorker.onerror = onLongLivedError;
+  }
+  const request = buildRequest(entry.task, entry.input, longLivedInputs);
+  running = { id: request.id, entry };
+  longLivedWorker.postMessage(request, entry.options.transfer ?? []);
+}
+
+function onLongLivedMessage(e: MessageEvent<WorkerResponse>) {
+  const message = e.data;
+  if (!running || message.id !== running.id) return;
+  const { entry } = running;
+  if (message.type === 'progress') {
+    if (!entry.cancelled) entry.options.onProgress?.(message.done, message.total);
+    return;
+  }
+  running = null;
+  if (message.type === 'result') entry.resolve(message.result);
+  else entry.reject(new Error(message.message));
+  runNext();
+}
+
+// A crashed worker is replaced, without its caches, for the next task
+function onLongLivedError(e: ErrorEvent) {
+  longLivedWorker?.terminate();
+  longLivedWorker = null;
+  const entry = running?.entry;
+  running = null;
+  entry?.reject(new Error(e.message || `Worker task ${entry.task} failed`));
+  runNext();
+}
+
+function runLongLivedTask(task: WorkerTaskName, input: object, options: WorkerTaskOptions): Promise<unknown> {
+  const { signal } = options;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      entry.cancelled = true;
+      const index = queue.indexOf(entry);
+      if (index >= 0) queue.splice(index, 1);
+      reject(abortError());
+    };
+    const settle = (finish: () => void) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (!entry.cancelled) finish();
+    };
+    const entry: QueuedTask = {
+      task, input, options, cancelled: false,
+      resolve: result => settle(() => resolve(result)),
+      reject: error => settle(() => reject(error))
+    };
+    signal?.addEventListener('abort', onAbort);
+    queue.push(entry);
+    runNext();
+  });
+}
+
+function runDedicatedTask(task: WorkerTaskName, input: object, options: WorkerTaskOptions): Promise<unknown> {
+  const { onProgress, signal, transfer = [] } = options;
+  return new Promise((resolve, reject) => {
+    const worker = createWorker();
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+        return;
+      }
+      finish();
+      if (message.type === 'result') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || `Worker task ${task} failed`));
+    };
+
+    worker.postMessage(buildRequest(task, input, new Map()), transfer);
+  });
+}
+
+/**
+ * Run a task from workerTasks in a Web Worker so parsing and analysis do not
+ * block the UI: a dedicated worker per task, or the long-lived worker with
+ * `longLived`. Without Worker support (e.g. under Node) the task runs inline.
+ */
+export function runWorkerTask<K extends WorkerTaskName>(
+  task: K,
+  input: WorkerTaskInput<K>,
+  options: WorkerTaskOptions = {}
+): Promise<WorkerTaskResult<K>> {
+  if (options.signal?.aborted) return Promise.reject(abortError());
+
+  if (typeof Worker === 'undefined') {
+    return runTask(task, input, options.onProgress ?? (() => {})) as Promise<WorkerTaskResult<K>>;
+  }
+
+  const run = options.longLived ? runLongLivedTask : runDedicatedTask;
+  return run(task, input, options) as Promise<WorkerTaskResult<K>>;
+}
@@ -0,0 +1,102 @@
+import { Aquifer, Well, Measurement, CompositeWeighting, ProgressCallback, WellSlice } from '../types';
+import { readCsv } from '../utils/csv';
+import { VariogramModel, VariogramParams } from '../utils/kriging';
+import { LengthUnit } from '../utils/units';
+import { readShapefileZip } from './shapefileZip';
+import { readWorkbook } from './spreadsheet';
+import { ImportFiles, UpdateFiles, validateImport, validateUpdate } from './importValidation';
+import { mergeRegionUpdate } from './regionUpdate';
+import { computeWellTrends } from './wellStatistics';
+import { computeTimeSlice } from './timeSlice';
+import { buildWaterTableSurface } from './waterTableSurface';
+import { computeCompositeHydrograph } from './compositeHydrograph';
+import { computeStorageChange } from './storageChange';
+
+/**
+ * Work that can run off the main thread. Inputs and results must survive
+ * structured cloning (plain objects, arrays, ArrayBuffers).
+ */
+export const workerTasks = {
+  readCsv: (input: { buffer: ArrayBuffer }, onProgress: ProgressCallback) =>
+    readCsv(input.buffer, onProgress),
+
+  readShapefileZip: (input: { buffer: ArrayBuffer }) =>
+    readShapefileZip(input.buffer),
+
+  readWorkbook: (input: { buffer: ArrayBuffer }) =>
+    readWorkbook(input.buffer),
+
+  validateImport: (input: ImportFiles) =>
+    validateImport(input),
+
+  validateUpdate: (input: UpdateFiles) =>
+    validateUpdate(input),
+
+  mergeRegionUpdate: (input: {
+    current: { wellsCsv: string; waterLevelsCsv: string };
+    update: { wells: Record<string, string>[]; waterLevels: Record<string, string>[] };
+  }) =>
+    mergeRegionUpdate(input.current, input.update),
+
+  wellTrends: (input: { wells: Well[]; measurements: Measurement[] }) =>
+    computeWellTrends(input.wells, input.measurements),
+
+  timeSlice: (input: { wells: Well[]; measurements: Measurement[]; date: string; maxGapDays: number }) =>
+    computeTimeSlice(input.wells, input.measurements, input.date, input.maxGapDays),
+
+  waterTableSurface: (input: {
+    aquifer: Aquifer;
+    slices: WellSlice[];
+    date: string;
+    model: VariogramModel;
+    variogram: VariogramParams | null;
+  }) =>
+    buildWaterTableSurface(input.aquifer, input.slices, input.date, input.model, input.variogram),
+
+  compositeHydrograph: (input: {
+    aquifer: Aquifer;
+    wells: Well[];
+    measurements: Measurement[];
+    steps: string[];
+    weighting: CompositeWeighting;
+    maxGapDays: number;
+  }, onProgress: ProgressCallback) =>
+    computeCompositeHydrograph(input.aquifer, input.wells, input.measurements, input.steps, input.weighting, input.maxGapDays, onProgress),
+
+  storageChange: (input: {
+    aquifer: Aquifer;
+    wells: Well[];
+    measurements: Measurement[];
+    steps: string[];
+    storageCoefficient: number;
+    model: VariogramModel;
+    maxGapDays: number;
+    lengthUnit: LengthUnit;
+  }, onProgress: ProgressCallback) =>
+    computeStorageChange(
+      input.aquifer, input.wells, input.measurements, input.steps, input.storageCoefficient,
+      input.model, input.maxGapDays, input.lengthUnit, onProgress
+    )
+};
+
+export type WorkerTaskName = keyof typeof workerTasks;
+export type WorkerTaskInput<K extends WorkerTaskName> = Parameters<typeof workerTasks[K]>[0];
+export type WorkerTaskResult<K extends WorkerTaskName> = Awaited<ReturnType<typeof workerTasks[K]>>;
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTaskName;
+  input: Record<string, unknown>;
+  reused: string[]; // Input fields left out because they are unchanged since the task's last request
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; done: number; total: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+// Run a task on the current thread
+export function runTask(task: WorkerTaskName, input: unknown, onProgress: ProgressCallback): Promise<unknown> {
+  const run = workerTasks[task] as (input: unknown, onProgress: ProgressCallback) => unknown;
+  return Promise.resolve().then(() => run(input, onProgress));
+}
@@ -10,7 +10,15 @@ declare module 'shpjs' {
     features: GeoJSONFeature[];
   }
 
-  function shp(input: ArrayBuffer | string): Promise<GeoJSONFeatureCollection | GeoJSONFeature>;
+  // Individual shapefile components; without `prj` coordinates are left as stored
+  interface ShapefileParts {
+    shp: ArrayBuffer;
+    dbf?: ArrayBuffer;
+    cpg?: string;
+    prj?: string;
+  }
+
+  function shp(input: ArrayBuffer | string | ShapefileParts): Promise<GeoJSONFeatureCollection | GeoJSONFeature>;
 
   export default shp;
 }
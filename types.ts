@@ -1,9 +1,41 @@
+import { VariogramBin, VariogramParams } from './utils/kriging';
+import { LengthUnit } from './utils/units';
 
 export interface Region {
   id: string;
   name: string;
   geojson: any;
   bounds: [number, number, number, number]; // [minLat, minLng, maxLat, maxLng]
+  lengthUnit: LengthUnit; // Units of elevations and depths in the region's data
+  verticalDatum: string; // e.g. NAVD88; empty when unknown
+  path: string; // Data folder, e.g. /data/oregon; empty for imported regions
+  imported?: boolean; // Stored in this browser by the Data Manager rather than in public/data
+}
+
+// Contents of a region folder, loaded when the region is first selected
+export interface RegionData {
+  aquifers: Aquifer[];
+  wells: Well[];
+  measurements: Measurement[];
+  exclusions: string[]; // Measurement keys saved as excluded with the region
+}
+
+// Reports work done so far out of a total, e.g. time steps or rows
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Files of a region loaded so far
+export interface RegionLoadProgress {
+  done: number;
+  total: number;
+}
+
+// Entry in public/data/regions.json
+export interface RegionManifestEntry {
+  id: string;
+  path: string;
+  name: string;
+  lengthUnit?: LengthUnit; // Defaults to feet
+  verticalDatum?: string;
 }
 
 export interface Aquifer {
@@ -31,10 +63,106 @@ export interface Measurement {
   date: string; // ISO or human readable
   wte: number; // Water Table Elevation
   aquiferId: string;
+  regionId: string;
+  occurrence?: number; // 2, 3, ... for repeats of an identical record (same well, date and level), in file order
 }
 
 export interface ChartPoint {
   date: number; // timestamp
-  wte: number;
+  wte: (number | null)[]; // Curve value per series; null breaks the line across a data gap
   isInterpolated: boolean;
+  seriesIndex?: number; // Series the measurement belongs to, on measurement points only
+  measured?: number; // Raw value, on measurement points only
+  key?: string; // measurementKey, on measurement points only
+  isExcluded?: boolean;
+}
+
+// One well's record plotted on the hydrograph
+export interface HydrographSeries {
+  wellId: string;
+  wellName: string;
+  gse: number | null; // null when the well has no usable ground surface elevation
+  measurements: Measurement[];
+}
+
+// Offset removed from each series so wells at different elevations can be compared
+export type SeriesNormalization = 'none' | 'mean' | 'first';
+
+export interface WaterTableSurface {
+  bounds: [number, number, number, number]; // [minLat, minLng, maxLat, maxLng]
+  nx: number;
+  ny: number;
+  values: (number | null)[]; // Row-major from the north edge, null outside the aquifer
+  min: number;
+  max: number;
+  date: string;
+  wellCount: number;
+  variogram: VariogramParams;
+  experimental: VariogramBin[];
+}
+
+export type WellSliceStatus = 'measured' | 'interpolated' | 'out-of-range' | 'no-data';
+
+// A well's estimated WTE at a common target date
+export interface WellSlice {
+  wellId: string;
+  wellName: string;
+  lat: number;
+  lng: number;
+  wte: number | null; // null when the date is outside the well's record
+  status: WellSliceStatus;
+  nearestDate: string | null; // Closest actual measurement
+  gapDays: number | null; // Days between the target date and nearestDate
+  isFlagged: boolean; // Nearest measurement is farther than the allowed gap
+}
+
+export interface StorageChangePoint {
+  date: string;
+  wellCount: number; // Wells used for the surface at this step
+  meanHeadChange: number; // Aquifer-averaged head change since the first step (data units)
+  volumeAcreFt: number; // Cumulative storage change
+  volumeM3: number;
+}
+
+export type CompositeWeighting = 'area' | 'mean';
+
+export interface CompositePoint {
+  date: string;
+  wellCount: number; // Wells contributing at this step
+  wte: number; // Aquifer-averaged water table elevation
+  depth: number | null; // Averaged over wells with a ground surface elevation
+}
+
+export type TrendDirection = 'rising' | 'declining' | 'no-trend' | 'insufficient';
+
+// Precomputed record summary of one well
+export interface WellSummary {
+  count: number;
+  firstDate: string; // ISO date
+  lastDate: string;
+  minWte: number;
+  maxWte: number;
+  latestWte: number;
+}
+
+// Per-well trend statistics (Mann-Kendall significance, Sen's slope)
+export interface WellTrend {
+  wellId: string;
+  wellName: string;
+  count: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  recordYears: number;
+  senSlope: number | null; // Data units per year
+  pValue: number | null;
+  tau: number | null;
+  direction: TrendDirection;
+}
+
+export type QAFlagType = 'spike' | 'above-ground' | 'jump' | 'duplicate';
+
+// A suspect-measurement flag raised by the QA checks
+export interface QAFlag {
+  type: QAFlagType;
+  reason: string;
 }
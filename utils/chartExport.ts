@@ -0,0 +1,106 @@
+
+import { downloadBlob } from './download';
+
+export interface ChartExportOptions {
+  title: string;
+  subtitle: string; // e.g. well IDs
+  legend?: { label: string; color: string }[];
+}
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const PNG_SCALE = 2;
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone SVG of the Recharts chart rendered inside `container`, with the
+ * title, subtitle and legend drawn above the plot. Returns null when no chart
+ * is rendered.
+ */
+export function buildChartSvg(
+  container: HTMLElement,
+  options: ChartExportOptions
+): { markup: string; width: number; height: number } | null {
+  const chart = container.querySelector('svg.recharts-surface') as SVGSVGElement | null;
+  if (!chart) return null;
+  const { width, height: chartHeight } = chart.getBoundingClientRect();
+  if (width === 0 || chartHeight === 0) return null;
+
+  // Lay the legend out in rows, estimating text width from the font size
+  const legendItems: string[] = [];
+  let x = 16, y = 64;
+  for (const item of options.legend ?? []) {
+    const itemWidth = 28 + item.label.length * 6.5;
+    if (x + itemWidth > width - 16 && x > 16) {
+      x = 16;
+      y += 18;
+    }
+    legendItems.push(
+      `<line x1="${x}" y1="${y - 4}" x2="${x + 16}" y2="${y - 4}" stroke="${item.color}" stroke-width="3" />` +
+      `<text x="${x + 22}" y="${y}" font-size="12" fill="#334155">${escapeXml(item.label)}</text>`
+    );
+    x += itemWidth;
+  }
+  const headerHeight = legendItems.length > 0 ? y + 14 : 56;
+  const height = headerHeight + chartHeight;
+
+  // Drop hover artifacts from the copy
+  const clone = chart.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('.recharts-tooltip-cursor, .recharts-active-dot').forEach(el => el.remove());
+  clone.setAttribute('x', '0');
+  clone.setAttribute('y', String(headerHeight));
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(chartHeight));
+
+  const markup = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="#ffffff" />`,
+    `<text x="16" y="26" font-size="16" font-weight="bold" fill="#1e293b">${escapeXml(options.title)}</text>`,
+    `<text x="16" y="44" font-size="12" fill="#64748b">${escapeXml(options.subtitle)}</text>`,
+    ...legendItems,
+    new XMLSerializer().serializeToString(clone),
+    '</svg>'
+  ].join('\n');
+
+  return { markup, width, height };
+}
+
+export function exportChartSvg(container: HTMLElement, options: ChartExportOptions, filename: string): boolean {
+  const svg = buildChartSvg(container, options);
+  if (!svg) return false;
+  downloadBlob(new Blob([svg.markup], { type: 'image/svg+xml' }), filename);
+  return true;
+}
+
+// Rasterize the exported SVG at twice the screen resolution
+export async function exportChartPng(container: HTMLElement, options: ChartExportOptions, filename: string): Promise<boolean> {
+  const svg = buildChartSvg(container, options);
+  if (!svg) return false;
+
+  const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Could not render chart image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = svg.width * PNG_SCALE;
+    canvas.height = svg.height * PNG_SCALE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return false;
+    ctx.scale(PNG_SCALE, PNG_SCALE);
+    ctx.drawImage(image, 0, 0, svg.width, svg.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) return false;
+    downloadBlob(blob, filename);
+    return true;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
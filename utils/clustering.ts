@@ -0,0 +1,37 @@
+
+export interface PointCluster<T> {
+  items: T[];
+  x: number; // Mean position of the members
+  y: number;
+}
+
+/**
+ * Group points by a square grid of `cellSize` (in the same units as the
+ * positions, typically screen pixels). Cells holding a single point come back
+ * as clusters of one.
+ */
+export function clusterByGrid<T>(
+  items: T[],
+  position: (item: T) => [number, number],
+  cellSize: number
+): PointCluster<T>[] {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+  for (const item of items) {
+    const [x, y] = position(item);
+    const key = `${Math.floor(x / cellSize)},${Math.floor(y / cellSize)}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { items: [], sumX: 0, sumY: 0 };
+      cells.set(key, cell);
+    }
+    cell.items.push(item);
+    cell.sumX += x;
+    cell.sumY += y;
+  }
+
+  return Array.from(cells.values(), c => ({
+    items: c.items,
+    x: c.sumX / c.items.length,
+    y: c.sumY / c.items.length
+  }));
+}
@@ -0,0 +1,50 @@
+
+// Color stops for continuous surfaces (low -> high), roughly viridis
+const RAMP_STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37]
+];
+
+// Map t in [0, 1] to an RGB triple
+export function rampColor(t: number): [number, number, number] {
+  const clamped = Math.max(0, Math.min(1, isFinite(t) ? t : 0));
+  const scaled = clamped * (RAMP_STOPS.length - 1);
+  const i = Math.min(RAMP_STOPS.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [r0, g0, b0] = RAMP_STOPS[i];
+  const [r1, g1, b1] = RAMP_STOPS[i + 1];
+  return [
+    Math.round(r0 + (r1 - r0) * f),
+    Math.round(g0 + (g1 - g0) * f),
+    Math.round(b0 + (b1 - b0) * f)
+  ];
+}
+
+export function rampColorHex(t: number): string {
+  return '#' + rampColor(t).map(c => c.toString(16).padStart(2, '0')).join('');
+}
+
+// CSS gradient matching the ramp, for legends
+export function rampGradientCss(direction = 'to right'): string {
+  const stops = RAMP_STOPS.map(([r, g, b], i) => `rgb(${r}, ${g}, ${b}) ${(i / (RAMP_STOPS.length - 1)) * 100}%`);
+  return `linear-gradient(${direction}, ${stops.join(', ')})`;
+}
+
+// Diverging red (negative) - light gray (zero) - blue (positive) for t in [-1, 1]
+export function divergingColorHex(t: number): string {
+  const clamped = Math.max(-1, Math.min(1, isFinite(t) ? t : 0));
+  const neutral = [226, 232, 240];
+  const end = clamped < 0 ? [220, 38, 38] : [37, 99, 235];
+  const f = Math.abs(clamped);
+  return '#' + neutral.map((c, i) => Math.round(c + (end[i] - c) * f).toString(16).padStart(2, '0')).join('');
+}
+
+// Line colors for wells compared on one chart; amber is reserved for QA-flagged points
+const SERIES_COLORS = ['#3b82f6', '#dc2626', '#059669', '#7c3aed', '#db2777', '#0891b2', '#65a30d', '#475569'];
+
+export function seriesColor(i: number): string {
+  return SERIES_COLORS[i % SERIES_COLORS.length];
+}
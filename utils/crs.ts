@@ -0,0 +1,183 @@
+
+import proj4 from 'proj4';
+
+export const WGS84 = 'EPSG:4326';
+
+export interface CrsOption {
+  code: string;
+  label: string;
+}
+
+// Bundled definitions so reprojection works offline: geographic systems, web
+// mercator, UTM zones (WGS 84 and NAD83) and State Plane zones of our regions
+const DEFINITIONS: Record<string, { label: string; proj4: string }> = {
+  'EPSG:4326': { label: 'WGS 84 (lat/long)', proj4: '+proj=longlat +datum=WGS84 +no_defs' },
+  'EPSG:4269': { label: 'NAD83 (lat/long)', proj4: '+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs' },
+  'EPSG:4267': { label: 'NAD27 (lat/long)', proj4: '+proj=longlat +ellps=clrk66 +towgs84=-8,160,176,0,0,0,0 +no_defs' },
+  'EPSG:3857': {
+    label: 'WGS 84 / Pseudo-Mercator',
+    proj4: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs'
+  },
+  'EPSG:2269': {
+    label: 'NAD83 / Oregon North (ft)',
+    proj4: '+proj=lcc +lat_0=43.6666666666667 +lon_0=-120.5 +lat_1=46 +lat_2=44.3333333333333 +x_0=2500000.0001424 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=ft +no_defs'
+  },
+  'EPSG:2270': {
+    label: 'NAD83 / Oregon South (ft)',
+    proj4: '+proj=lcc +lat_0=41.6666666666667 +lon_0=-120.5 +lat_1=44 +lat_2=42.3333333333333 +x_0=1500000.0001464 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=ft +no_defs'
+  },
+  'EPSG:2992': {
+    label: 'NAD83 / Oregon GIC Lambert (ft)',
+    proj4: '+proj=lcc +lat_0=41.75 +lon_0=-120.5 +lat_1=43 +lat_2=45.5 +x_0=399999.9999984 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=ft +no_defs'
+  },
+  'EPSG:3560': {
+    label: 'NAD83 / Utah North (ftUS)',
+    proj4: '+proj=lcc +lat_0=40.3333333333333 +lon_0=-111.5 +lat_1=41.7833333333333 +lat_2=40.7166666666667 +x_0=500000.00001016 +y_0=999999.999960001 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=us-ft +no_defs'
+  },
+  'EPSG:3566': {
+    label: 'NAD83 / Utah Central (ftUS)',
+    proj4: '+proj=lcc +lat_0=38.3333333333333 +lon_0=-111.5 +lat_1=40.65 +lat_2=39.0166666666667 +x_0=500000.00001016 +y_0=2000000.00001016 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=us-ft +no_defs'
+  },
+  'EPSG:3567': {
+    label: 'NAD83 / Utah South (ftUS)',
+    proj4: '+proj=lcc +lat_0=36.6666666666667 +lon_0=-111.5 +lat_1=38.35 +lat_2=37.2166666666667 +x_0=500000.00001016 +y_0=2999999.99998984 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=us-ft +no_defs'
+  }
+};
+
+for (let zone = 1; zone <= 60; zone++) {
+  DEFINITIONS[`EPSG:${32600 + zone}`] = {
+    label: `WGS 84 / UTM zone ${zone}N`,
+    proj4: `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`
+  };
+  DEFINITIONS[`EPSG:${32700 + zone}`] = {
+    label: `WGS 84 / UTM zone ${zone}S`,
+    proj4: `+proj=utm +zone=${zone} +south +datum=WGS84 +units=m +no_defs`
+  };
+}
+for (let zone = 1; zone <= 23; zone++) {
+  DEFINITIONS[`EPSG:${26900 + zone}`] = {
+    label: `NAD83 / UTM zone ${zone}N`,
+    proj4: `+proj=utm +zone=${zone} +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`
+  };
+}
+
+for (const [code, def] of Object.entries(DEFINITIONS)) {
+  proj4.defs(code, def.proj4);
+}
+
+const codeNumber = (code: string) => parseInt(code.split(':')[1], 10);
+
+const CRS_OPTIONS: CrsOption[] = Object.entries(DEFINITIONS)
+  .map(([code, def]) => ({ code, label: `${def.label} (${code})` }))
+  .sort((a, b) => codeNumber(a.code) - codeNumber(b.code));
+
+// Name of the outermost coordinate system in a WKT string
+function wktName(wkt: string): string {
+  const match = wkt.match(/^\s*(?:PROJCS|GEOGCS|PROJCRS|GEOGCRS|GEODCRS)\s*\[\s*"([^"]*)"/i);
+  return match ? match[1] : 'Custom projection';
+}
+
+// Human-readable label for a bundled code or a WKT definition
+export function crsLabel(crs: string): string {
+  return DEFINITIONS[crs]?.label ?? wktName(crs);
+}
+
+// Selector options: the bundled systems, plus `current` when it is a .prj definition
+export function crsOptions(current?: string): CrsOption[] {
+  if (!current || DEFINITIONS[current]) return CRS_OPTIONS;
+  return [{ code: current, label: `${crsLabel(current)} (from .prj)` }, ...CRS_OPTIONS];
+}
+
+export function isGeographic(crs: string): boolean {
+  const def = DEFINITIONS[crs]?.proj4 ?? '';
+  return def.includes('+proj=longlat') || /^\s*(GEOGCS|GEOGCRS|GEODCRS)/i.test(crs);
+}
+
+/**
+ * Coordinate system of a shapefile .prj. Well-known names are matched to a
+ * bundled EPSG code; anything else is returned as the WKT itself when proj4
+ * can read it, or null when it cannot.
+ */
+export function detectCrsFromPrj(wkt: string): string | null {
+  const name = wktName(wkt).replace(/\s+/g, '_');
+
+  const utm = name.match(/(WGS_?1984|WGS_?84|NAD_?1983|NAD_?83)_UTM_Zone_(\d+)([NS])?/i);
+  if (utm) {
+    const zone = parseInt(utm[2], 10);
+    const south = utm[3]?.toUpperCase() === 'S';
+    const code = /NAD/i.test(utm[1]) && !south ? `EPSG:${26900 + zone}` : `EPSG:${(south ? 32700 : 32600) + zone}`;
+    if (DEFINITIONS[code]) return code;
+  }
+  if (/^PROJCS|^PROJCRS/i.test(wkt.trim())) {
+    if (/Web_Mercator|Pseudo[-_]Mercator/i.test(name)) return 'EPSG:3857';
+  } else {
+    if (/WGS_?1984|WGS_?84/i.test(name)) return 'EPSG:4326';
+    if (/North_American_1983|NAD_?1983|NAD_?83/i.test(name)) return 'EPSG:4269';
+    if (/North_American_1927|NAD_?1927|NAD_?27/i.test(name)) return 'EPSG:4267';
+  }
+
+  try {
+    proj4(wkt, WGS84);
+    return wkt;
+  } catch (e) {
+    console.warn(`Unsupported projection in .prj (${name}):`, e);
+    return null;
+  }
+}
+
+// Bundled code named by the legacy `crs` member of a GeoJSON file, if any
+export function detectCrsFromGeoJSON(geojson: any): string | null {
+  const name: string = geojson?.crs?.properties?.name ?? '';
+  if (/CRS84$/i.test(name)) return WGS84;
+  const match = name.match(/EPSG:+(\d+)$/i);
+  return match && DEFINITIONS[`EPSG:${match[1]}`] ? `EPSG:${match[1]}` : null;
+}
+
+// Converter from a coordinate system to WGS 84 [lng, lat]
+export function createTransform(crs: string): (x: number, y: number) => [number, number] {
+  if (crs === WGS84) return (x, y) => [x, y];
+  const converter = proj4(crs, WGS84);
+  return (x, y) => {
+    const [lng, lat] = converter.forward([x, y]);
+    return [lng, lat];
+  };
+}
+
+// Whether coordinates are plausible longitude/latitude values
+export function looksGeographic(points: number[][]): boolean {
+  return points.every(([x, y]) => Math.abs(x) <= 180 && Math.abs(y) <= 90);
+}
+
+// Copy of a GeoJSON object with every position passed through `fn`
+function mapPositions(geojson: any, fn: (p: number[]) => number[]): any {
+  if (!geojson) return geojson;
+  const mapCoords = (coords: any): any =>
+    typeof coords[0] === 'number' ? fn(coords) : coords.map(mapCoords);
+
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      return { ...geojson, features: geojson.features.map((f: any) => mapPositions(f, fn)) };
+    case 'Feature':
+      return { ...geojson, geometry: mapPositions(geojson.geometry, fn) };
+    case 'GeometryCollection':
+      return { ...geojson, geometries: geojson.geometries.map((g: any) => mapPositions(g, fn)) };
+    default:
+      return geojson.coordinates ? { ...geojson, coordinates: mapCoords(geojson.coordinates) } : geojson;
+  }
+}
+
+// All positions of a GeoJSON object, for range checks
+export function geojsonPositions(geojson: any): number[][] {
+  const positions: number[][] = [];
+  mapPositions(geojson, p => {
+    positions.push(p);
+    return p;
+  });
+  return positions;
+}
+
+export function reprojectGeoJSON(geojson: any, crs: string): any {
+  if (crs === WGS84) return geojson;
+  const transform = createTransform(crs);
+  return mapPositions(geojson, ([x, y, ...rest]) => [...transform(x, y), ...rest]);
+}
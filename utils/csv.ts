@@ -0,0 +1,251 @@
+
+// Records between progress reports while parsing
+const PROGRESS_INTERVAL = 20000;
+
+// Delimiters tried when sniffing, in order of preference on a tie
+const DELIMITERS = [',', '\t', ';', '|'] as const;
+
+export type CsvDelimiter = typeof DELIMITERS[number];
+
+// A problem with one record; `line` is the 1-based line the record starts on
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+  delimiter: CsvDelimiter;
+  errors: CsvRowError[];
+  decimalCommas: number; // Values of a semicolon-delimited file rewritten with a decimal point
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Decode file bytes, honouring a UTF-8 or UTF-16 byte order mark. Text
+ * without a BOM is read as UTF-8, falling back to Windows-1252 (what Excel
+ * writes for "CSV" on Windows) when it is not valid UTF-8.
+ */
+export function decodeText(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer);
+  let encoding = 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+
+  try {
+    return { text: new TextDecoder(encoding, { fatal: true }).decode(bytes), encoding };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+}
+
+// Count a character outside quoted sections of a line
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const c of line) {
+    if (c === '"') quoted = !quoted;
+    else if (c === char && !quoted) count++;
+  }
+  return count;
+}
+
+/**
+ * Pick the delimiter from the first lines: the candidate appearing the same
+ * (non-zero) number of times on each line wins, the most frequent one
+ * otherwise. Defaults to a comma.
+ */
+export function sniffDelimiter(text: string): CsvDelimiter {
+  const sample = text.slice(0, 64 * 1024).split(/\r\n|\n|\r/).filter(line => line.trim()).slice(0, 10);
+  if (sample.length === 0) return ',';
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = sample.map(line => countOutsideQuotes(line, delimiter));
+    const consistent = counts.every(c => c === counts[0]);
+    // Consistent counts outrank any inconsistent ones
+    const score = counts[0] === 0 ? 0 : consistent ? 1e6 + counts[0] : counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Numbers written with a decimal comma, as in 12,5 or 1.234,5 (dots grouping thousands)
+const DECIMAL_COMMA = /^-?(\d+|\d{1,3}(\.\d{3})+),\d+$/;
+
+/**
+ * Parse delimited text following RFC 4180: fields may be quoted, quotes
+ * inside them are doubled, and quoted fields may contain delimiters and line
+ * breaks. CRLF, LF and CR line endings and a leading BOM are accepted.
+ * Headers and unquoted values are trimmed and blank records skipped.
+ * Malformed records are kept as well as possible and listed in `errors`.
+ * Semicolon-delimited files are European exports, so their decimal-comma
+ * numbers are rewritten with a decimal point (counted in `decimalCommas`).
+ */
+export function parseCsv(
+  text: string,
+  onProgress?: (done: number, total: number) => void,
+  delimiter: CsvDelimiter = sniffDelimiter(text)
+): CsvTable {
+  const errors: CsvRowError[] = [];
+  const records: { line: number; fields: string[] }[] = [];
+
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+  while (pos < text.length) {
+    const start = line;
+    const fields: string[] = [];
+
+    // Read one record
+    for (;;) {
+      let value = '';
+      if (text[pos] === '"') {
+        pos++;
+        for (;;) {
+          const close = text.indexOf('"', pos);
+          if (close < 0) {
+            errors.push({ line: start, message: 'Unterminated quoted field' });
+            value += text.slice(pos);
+            pos = text.length;
+            break;
+          }
+          value += text.slice(pos, close);
+          pos = close + 1;
+          if (text[pos] === '"') {
+            value += '"';
+            pos++;
+          } else {
+            break;
+          }
+        }
+        for (const c of value) if (c === '\n') line++;
+
+        // Anything between the closing quote and the delimiter is kept as is
+        let end = pos;
+        while (end < text.length && text[end] !== delimiter && text[end] !== '\n' && text[end] !== '\r') end++;
+        if (end > pos) {
+          if (text.slice(pos, end).trim()) {
+            errors.push({ line: start, message: 'Unexpected text after a closing quote' });
+            value += text.slice(pos, end);
+          }
+          pos = end;
+        }
+      } else {
+        let end = pos;
+        while (end < text.length && text[end] !== delimiter && text[end] !== '\n' && text[end] !== '\r') end++;
+        value = text.slice(pos, end).trim();
+        pos = end;
+      }
+      fields.push(value);
+
+      if (text[pos] === delimiter) {
+        pos++;
+        continue;
+      }
+      // End of record: CRLF, LF, CR or end of text
+      if (text[pos] === '\r') pos++;
+      if (text[pos] === '\n') pos++;
+      line++;
+      break;
+    }
+
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: start, fields });
+      if (onProgress && records.length % PROGRESS_INTERVAL === 0) onProgress(pos, text.length);
+    }
+  }
+
+  if (records.length === 0) return { headers: [], rows: [], delimiter, errors, decimalCommas: 0 };
+
+  const headers = records[0].fields.map(h => h.trim());
+  const rows: Record<string, string>[] = [];
+  const decimalComma = delimiter === ';';
+  let decimalCommas = 0;
+  for (let i = 1; i < records.length; i++) {
+    const { line: recordLine, fields } = records[i];
+    if (fields.length !== headers.length) {
+      errors.push({ line: recordLine, message: `Expected ${headers.length} fields but found ${fields.length}` });
+    }
+    const row: Record<string, string> = {};
+    headers.forEach((header, idx) => {
+      let value = fields[idx] ?? '';
+      if (decimalComma && DECIMAL_COMMA.test(value)) {
+        value = value.replace(/\./g, '').replace(',', '.');
+        decimalCommas++;
+      }
+      row[header] = value;
+    });
+    rows.push(row);
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { headers, rows, delimiter, errors, decimalCommas };
+}
+
+// Column format row of a USGS RDB file, e.g. 5s<tab>15s<tab>10d
+const RDB_FORMAT_ROW = /^\d+[sdn](\t\d+[sdn])*$/;
+
+/**
+ * Parse USGS RDB text (as served by NWIS): '#' comment lines, a
+ * tab-delimited header, a row of column formats, then the data. Returns null
+ * when the text is not RDB.
+ */
+export function parseRdb(text: string, onProgress?: (done: number, total: number) => void): CsvTable | null {
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let comments = 0;
+  while (text[pos] === '#') {
+    const next = text.indexOf('\n', pos);
+    if (next < 0) return null;
+    pos = next + 1;
+    comments++;
+  }
+
+  const body = text.slice(pos);
+  const formatRow = body.split(/\r\n|\n|\r/, 2)[1];
+  if (formatRow === undefined || !RDB_FORMAT_ROW.test(formatRow.trim())) return null;
+
+  const table = parseCsv(body, onProgress, '\t');
+  table.rows.shift();
+  // Report lines of the whole file, comments included
+  table.errors = table.errors.map(e => ({ ...e, line: e.line + comments }));
+  return table;
+}
+
+// Decode and parse a CSV (or USGS RDB) file's bytes
+export function readCsv(
+  buffer: ArrayBuffer,
+  onProgress?: (done: number, total: number) => void
+): CsvTable & { encoding: string; format: 'csv' | 'rdb' } {
+  const { text, encoding } = decodeText(buffer);
+  const rdb = parseRdb(text, onProgress);
+  if (rdb) return { ...rdb, encoding, format: 'rdb' };
+  return { ...parseCsv(text, onProgress), encoding, format: 'csv' };
+}
+
+// Quote a value when it holds the delimiter, a quote, a line break or edge whitespace
+function formatValue(value: CsvValue, delimiter: string): string {
+  const s = value === null || value === undefined ? '' : String(value);
+  return s.includes(delimiter) || /["\r\n]/.test(s) || s !== s.trim()
+    ? `"${s.replace(/"/g, '""')}"`
+    : s;
+}
+
+// Write a header and rows as RFC 4180 CSV with CRLF line endings
+export function formatCsv(headers: string[], rows: CsvValue[][], delimiter: CsvDelimiter = ','): string {
+  return [headers, ...rows]
+    .map(row => row.map(v => formatValue(v, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
+}
+
+// Summary of row errors for logs: the first few with their line numbers
+export function describeCsvErrors(errors: CsvRowError[], limit = 5): string[] {
+  const lines = errors.slice(0, limit).map(e => `Line ${e.line}: ${e.message}`);
+  if (errors.length > limit) lines.push(`...and ${errors.length - limit} more`);
+  return lines;
+}
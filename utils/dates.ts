@@ -0,0 +1,132 @@
+
+export type TimeStepUnit = 'month' | 'year';
+
+// Format a timestamp as an ISO date (YYYY-MM-DD)
+export function toISODate(t: number): string {
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+// Build the list of step dates between start and end (inclusive of the end date)
+export function buildTimeSteps(startDate: string, endDate: string, unit: TimeStepUnit): string[] {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) return [];
+
+  const steps: string[] = [];
+  let year = start.getUTCFullYear();
+  let month = unit === 'year' ? 0 : start.getUTCMonth();
+
+  // Always include the start date itself so the first frame lands on data
+  steps.push(startDate);
+  for (;;) {
+    if (unit === 'year') year++;
+    else if (++month > 11) { month = 0; year++; }
+    const d = new Date(Date.UTC(year, month, 1));
+    if (d > end) break;
+    steps.push(toISODate(d.getTime()));
+  }
+  if (steps[steps.length - 1] !== endDate) steps.push(endDate);
+  return steps;
+}
+
+// Calendar day (YYYY-MM-DD) of a date string, so 2024-01-05, 2024-01-05T14:30 and 1/5/2024 match;
+// unparseable dates are returned unchanged
+export function dateKey(date: string): string {
+  if (/^\d{4}-\d{2}-\d{2}/.test(date)) return date.slice(0, 10);
+  const d = new Date(date);
+  if (isNaN(d.getTime())) return date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Inclusive date window; an empty bound is open-ended
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export function isDateRangeActive(range: DateRange): boolean {
+  return range.start !== '' || range.end !== '';
+}
+
+// Predicate for dates inside the range (unparseable dates fall outside an active range)
+export function createDateRangeTest(range: DateRange): (date: string) => boolean {
+  const start = range.start ? new Date(range.start).getTime() : -Infinity;
+  const end = range.end ? new Date(range.end).getTime() : Infinity;
+  return (date: string) => {
+    const t = new Date(date).getTime();
+    return !isNaN(t) && t >= (isNaN(start) ? -Infinity : start) && t <= (isNaN(end) ? Infinity : end);
+  };
+}
+
+/**
+ * Date of an Excel serial number: days since 1899-12-30 (or 1904-01-01 for
+ * workbooks using the 1904 date system), with the time of day as a fraction.
+ * The 1900 system counts a 29 February 1900 that never was, so serials
+ * before March 1900 are one day ahead. Times are kept to the minute and
+ * marked UTC (YYYY-MM-DDTHH:MMZ), as date-only strings are read as UTC.
+ */
+export function excelSerialToIso(serial: number, date1904 = false): string {
+  const totalMinutes = Math.round(serial * 1440);
+  const days = Math.floor(totalMinutes / 1440);
+  const minutes = totalMinutes - days * 1440;
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, days < 61 ? 31 : 30);
+  const iso = new Date(epoch + (days * 1440 + minutes) * 60000).toISOString();
+  return minutes === 0 ? iso.slice(0, 10) : `${iso.slice(0, 16)}Z`;
+}
+
+// Whether values look like Excel serial dates rather than text dates (five digits covers 1927 to 2173)
+export function looksLikeExcelSerials(values: string[]): boolean {
+  return values.length > 0 && values.every(v => /^\d{5}(\.\d+)?$/.test(v));
+}
+
+// Convert a date in one of the import formats ('iso', 'us', 'eu', 'us-short', 'eu-short', 'excel')
+// to YYYY-MM-DD; dates that don't match the format are returned unchanged
+export function normalizeDate(dateStr: string, format: string): string {
+  if (!dateStr) return '';
+
+  let parts: string[];
+  let year: string, month: string, day: string;
+
+  switch (format) {
+    case 'iso':
+      // YYYY-MM-DD
+      parts = dateStr.split('-');
+      if (parts.length === 3) {
+        return dateStr; // Already in ISO format
+      }
+      break;
+    case 'us':
+    case 'us-short':
+      // MM/DD/YYYY or M/D/YYYY
+      parts = dateStr.split('/');
+      if (parts.length === 3) {
+        month = parts[0].padStart(2, '0');
+        day = parts[1].padStart(2, '0');
+        year = parts[2].length === 2 ? '20' + parts[2] : parts[2];
+        return `${year}-${month}-${day}`;
+      }
+      break;
+    case 'eu':
+    case 'eu-short':
+      // DD/MM/YYYY or D/M/YYYY
+      parts = dateStr.split('/');
+      if (parts.length === 3) {
+        day = parts[0].padStart(2, '0');
+        month = parts[1].padStart(2, '0');
+        year = parts[2].length === 2 ? '20' + parts[2] : parts[2];
+        return `${year}-${month}-${day}`;
+      }
+      break;
+    case 'excel':
+      // Serial day number, as Excel shows a date cell formatted as General
+      if (/^\d+(\.\d+)?$/.test(dateStr)) return excelSerialToIso(parseFloat(dateStr));
+      break;
+  }
+
+  return dateStr;
+}
+
+// Whether the app can place a date string on the time axis
+export function isValidDate(dateStr: string): boolean {
+  return dateStr !== '' && !isNaN(new Date(dateStr).getTime());
+}
@@ -0,0 +1,119 @@
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+// Collect polygon rings from any GeoJSON object as [polygon][ring][lng, lat]
+export function getPolygons(geojson: any): number[][][][] {
+  const polygons: number[][][][] = [];
+  if (!geojson) return polygons;
+
+  const stack: any[] = [geojson];
+  while (stack.length > 0) {
+    const obj = stack.pop();
+    if (!obj) continue;
+
+    if (obj.type === 'FeatureCollection') {
+      for (const f of obj.features || []) stack.push(f);
+    } else if (obj.type === 'Feature') {
+      stack.push(obj.geometry);
+    } else if (obj.type === 'GeometryCollection') {
+      for (const g of obj.geometries || []) stack.push(g);
+    } else if (obj.type === 'Polygon') {
+      polygons.push(obj.coordinates);
+    } else if (obj.type === 'MultiPolygon') {
+      for (const p of obj.coordinates) polygons.push(p);
+    }
+  }
+
+  return polygons;
+}
+
+// Ray casting test against a single ring
+function pointInRing(lng: number, lat: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Point-in-polygon test honoring holes (first ring is the shell, the rest are holes)
+export function pointInPolygons(lng: number, lat: number, polygons: number[][][][]): boolean {
+  for (const rings of polygons) {
+    if (rings.length === 0 || !pointInRing(lng, lat, rings[0])) continue;
+    let inHole = false;
+    for (let r = 1; r < rings.length; r++) {
+      if (pointInRing(lng, lat, rings[r])) {
+        inHole = true;
+        break;
+      }
+    }
+    if (!inHole) return true;
+  }
+  return false;
+}
+
+// Why a feature's geometry can't be used as a boundary, or null when it is a valid (Multi)Polygon
+export function polygonGeometryError(geometry: any): string | null {
+  if (!geometry) return 'missing geometry';
+  let polygons: any[];
+  if (geometry.type === 'Polygon') polygons = [geometry.coordinates];
+  else if (geometry.type === 'MultiPolygon') polygons = geometry.coordinates;
+  else return `${geometry.type} geometry is not a polygon`;
+  if (!Array.isArray(polygons) || polygons.length === 0) return 'empty geometry';
+
+  for (const rings of polygons) {
+    if (!Array.isArray(rings) || rings.length === 0) return 'polygon without rings';
+    for (const ring of rings) {
+      if (!Array.isArray(ring) || ring.length < 4) return 'ring with fewer than 4 positions';
+      if (!ring.every(p => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]))) return 'non-numeric coordinates';
+      const first = ring[0], last = ring[ring.length - 1];
+      if (first[0] !== last[0] || first[1] !== last[1]) return 'ring is not closed';
+    }
+  }
+  return null;
+}
+
+export function pointInGeoJSON(lng: number, lat: number, geojson: any): boolean {
+  return pointInPolygons(lng, lat, getPolygons(geojson));
+}
+
+// Local equirectangular projection to kilometers, accurate enough at aquifer scale
+export function createLocalProjection(originLat: number, originLng: number) {
+  const toRad = Math.PI / 180;
+  const cosLat = Math.cos(originLat * toRad);
+  return (lat: number, lng: number): [number, number] => [
+    (lng - originLng) * toRad * EARTH_RADIUS_KM * cosLat,
+    (lat - originLat) * toRad * EARTH_RADIUS_KM
+  ];
+}
+
+// Area of polygons (holes subtracted) in square kilometers, using the equal-area sinusoidal projection
+export function polygonAreaKm2(geojson: any): number {
+  const toRad = Math.PI / 180;
+  const project = (lng: number, lat: number): [number, number] => [
+    lng * toRad * EARTH_RADIUS_KM * Math.cos(lat * toRad),
+    lat * toRad * EARTH_RADIUS_KM
+  ];
+
+  const ringArea = (ring: number[][]) => {
+    let sum = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = project(ring[i][0], ring[i][1]);
+      const [xj, yj] = project(ring[j][0], ring[j][1]);
+      sum += xj * yi - xi * yj;
+    }
+    return Math.abs(sum) / 2;
+  };
+
+  let area = 0;
+  for (const rings of getPolygons(geojson)) {
+    if (rings.length === 0) continue;
+    area += ringArea(rings[0]);
+    for (let r = 1; r < rings.length; r++) area -= ringArea(rings[r]);
+  }
+  return area;
+}
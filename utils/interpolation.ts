@@ -1,9 +1,188 @@
 
+export type InterpolationMethod = 'linear' | 'pchip' | 'spline' | 'akima' | 'step';
+
+export const INTERPOLATION_METHODS: { value: InterpolationMethod; label: string }[] = [
+  { value: 'pchip', label: 'PCHIP (shape-preserving)' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'spline', label: 'Natural spline' },
+  { value: 'akima', label: 'Akima' },
+  { value: 'step', label: 'Step (hold last value)' },
+];
+
+// Index i of the interval with x[i] <= tx <= x[i + 1] (x sorted, tx within range)
+function findInterval(x: number[], tx: number): number {
+  let lo = 0;
+  let hi = x.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (x[mid] <= tx) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+// Evaluate a cubic Hermite interpolant given node slopes d, clamping outside the data range
+function evaluateHermite(x: number[], y: number[], d: number[], targetX: number[]): number[] {
+  const n = x.length;
+  return targetX.map(tx => {
+    if (tx <= x[0]) return y[0];
+    if (tx >= x[n - 1]) return y[n - 1];
+
+    const i = findInterval(x, tx);
+    const h = x[i + 1] - x[i];
+    if (h === 0) return y[i];
+
+    const t = (tx - x[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const result = (2 * t3 - 3 * t2 + 1) * y[i]
+      + (t3 - 2 * t2 + t) * h * d[i]
+      + (-2 * t3 + 3 * t2) * y[i + 1]
+      + (t3 - t2) * h * d[i + 1];
+
+    return isFinite(result) ? result : y[i];
+  });
+}
+
+// Secant slopes between consecutive points (0 across duplicate x values)
+function secantSlopes(x: number[], y: number[]): number[] {
+  const delta: number[] = [];
+  for (let i = 0; i < x.length - 1; i++) {
+    const h = x[i + 1] - x[i];
+    delta.push(h === 0 ? 0 : (y[i + 1] - y[i]) / h);
+  }
+  return delta;
+}
+
+/**
+ * Piecewise linear interpolation, clamped to the end values outside the data range.
+ */
+export function interpolateLinear(x: number[], y: number[], targetX: number[]): number[] {
+  const n = x.length;
+  if (n < 2) return targetX.map(() => (n === 1 ? y[0] : 0));
+
+  return targetX.map(tx => {
+    if (tx <= x[0]) return y[0];
+    if (tx >= x[n - 1]) return y[n - 1];
+    const i = findInterval(x, tx);
+    const h = x[i + 1] - x[i];
+    return h === 0 ? y[i] : y[i] + ((y[i + 1] - y[i]) * (tx - x[i])) / h;
+  });
+}
+
 /**
- * Attempt cubic spline interpolation for smoother curves.
- * Falls back gracefully for edge cases.
+ * Step interpolation: hold the most recent measurement until the next one.
+ */
+export function interpolateStep(x: number[], y: number[], targetX: number[]): number[] {
+  const n = x.length;
+  if (n < 2) return targetX.map(() => (n === 1 ? y[0] : 0));
+
+  return targetX.map(tx => {
+    if (tx <= x[0]) return y[0];
+    if (tx >= x[n - 1]) return y[n - 1];
+    return y[findInterval(x, tx)];
+  });
+}
+
+/**
+ * Monotone piecewise cubic Hermite interpolation (Fritsch-Carlson, as in
+ * MATLAB/SciPy pchip). Never overshoots: the curve stays within the range of
+ * neighboring measurements and is flat at local extrema.
  */
 export function interpolatePCHIP(x: number[], y: number[], targetX: number[]): number[] {
+  const n = x.length;
+  if (n < 3) return interpolateLinear(x, y, targetX);
+
+  const h = x.slice(1).map((xi, i) => xi - x[i]);
+  const delta = secantSlopes(x, y);
+  const d = new Array(n).fill(0);
+
+  // Interior slopes: weighted harmonic mean, zero where the secants change sign
+  for (let i = 1; i < n - 1; i++) {
+    if (delta[i - 1] * delta[i] <= 0) continue;
+    const w1 = 2 * h[i] + h[i - 1];
+    const w2 = h[i] + 2 * h[i - 1];
+    d[i] = (w1 + w2) / (w1 / delta[i - 1] + w2 / delta[i]);
+  }
+
+  // One-sided three-point end slopes, limited to preserve shape
+  const endSlope = (h0: number, h1: number, m0: number, m1: number) => {
+    if (h0 + h1 === 0) return 0;
+    const s = ((2 * h0 + h1) * m0 - h0 * m1) / (h0 + h1);
+    if (Math.sign(s) !== Math.sign(m0)) return 0;
+    if (Math.sign(m0) !== Math.sign(m1) && Math.abs(s) > Math.abs(3 * m0)) return 3 * m0;
+    return s;
+  };
+  d[0] = endSlope(h[0], h[1], delta[0], delta[1]);
+  d[n - 1] = endSlope(h[n - 2], h[n - 3], delta[n - 2], delta[n - 3]);
+
+  return evaluateHermite(x, y, d, targetX);
+}
+
+/**
+ * Akima interpolation: local cubic slopes weighted by neighboring secant
+ * changes, which resists the wiggles of a global spline around outliers.
+ */
+export function interpolateAkima(x: number[], y: number[], targetX: number[]): number[] {
+  const n = x.length;
+  if (n < 3) return interpolateLinear(x, y, targetX);
+
+  // Secants padded with two extrapolated values on each side: m[k + 2] is the secant of interval k
+  const delta = secantSlopes(x, y);
+  const m = new Array(n + 3);
+  for (let k = 0; k < n - 1; k++) m[k + 2] = delta[k];
+  m[1] = 2 * m[2] - m[3];
+  m[0] = 2 * m[1] - m[2];
+  m[n + 1] = 2 * m[n] - m[n - 1];
+  m[n + 2] = 2 * m[n + 1] - m[n];
+
+  const d = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const w1 = Math.abs(m[i + 3] - m[i + 2]);
+    const w2 = Math.abs(m[i + 1] - m[i]);
+    d[i] = w1 + w2 === 0 ? (m[i + 1] + m[i + 2]) / 2 : (w1 * m[i + 1] + w2 * m[i + 2]) / (w1 + w2);
+  }
+
+  return evaluateHermite(x, y, d, targetX);
+}
+
+export function interpolate(method: InterpolationMethod, x: number[], y: number[], targetX: number[]): number[] {
+  switch (method) {
+    case 'linear': return interpolateLinear(x, y, targetX);
+    case 'pchip': return interpolatePCHIP(x, y, targetX);
+    case 'spline': return interpolateNaturalSpline(x, y, targetX);
+    case 'akima': return interpolateAkima(x, y, targetX);
+    case 'step': return interpolateStep(x, y, targetX);
+  }
+}
+
+/**
+ * Interpolate, leaving targets that fall inside a data gap longer than
+ * `maxGap` as null so the curve is broken instead of bridged.
+ * A `maxGap` of Infinity bridges every gap.
+ */
+export function interpolateWithGaps(
+  method: InterpolationMethod,
+  x: number[],
+  y: number[],
+  targetX: number[],
+  maxGap: number
+): (number | null)[] {
+  const values = interpolate(method, x, y, targetX);
+  if (!isFinite(maxGap) || x.length < 2) return values;
+
+  return targetX.map((tx, k) => {
+    if (tx <= x[0] || tx >= x[x.length - 1]) return values[k];
+    const i = findInterval(x, tx);
+    return x[i + 1] - x[i] > maxGap && tx !== x[i] && tx !== x[i + 1] ? null : values[k];
+  });
+}
+
+/**
+ * Natural cubic spline interpolation. Smooth, but can overshoot between
+ * measurements. Falls back gracefully for edge cases.
+ */
+export function interpolateNaturalSpline(x: number[], y: number[], targetX: number[]): number[] {
   const n = x.length;
   if (n < 2) return targetX.map(() => (n === 1 ? y[0] : 0));
 
@@ -17,8 +196,7 @@ export function interpolatePCHIP(x: number[], y: number[], targetX: number[]): n
     });
   }
 
-  // Use natural cubic spline for 3+ points (smoother than PCHIP)
-  // This allows overshooting but produces nicer curves
+  // Natural cubic spline for 3+ points
 
   // 1. Calculate intervals and slopes
   const h = new Array(n - 1);
@@ -77,9 +255,7 @@ export function interpolatePCHIP(x: number[], y: number[], targetX: number[]): n
     if (tx <= x[0]) return y[0];
     if (tx >= x[n - 1]) return y[n - 1];
 
-    // Find interval
-    let i = 0;
-    while (i < n - 2 && x[i + 1] < tx) i++;
+    const i = findInterval(x, tx);
 
     // Guard against zero interval
     if (h[i] === 0) return y[i];
@@ -0,0 +1,225 @@
+
+export type VariogramModel = 'spherical' | 'exponential' | 'gaussian';
+
+export interface VariogramParams {
+  model: VariogramModel;
+  nugget: number;
+  sill: number; // Total sill (nugget + partial sill)
+  range: number; // Same distance units as the input points
+}
+
+export interface KrigingPoint {
+  x: number;
+  y: number;
+  value: number;
+}
+
+export interface VariogramBin {
+  lag: number; // Mean separation distance in the bin
+  gamma: number; // Semivariance
+  count: number; // Number of point pairs
+}
+
+export const VARIOGRAM_MODELS: { value: VariogramModel; label: string }[] = [
+  { value: 'spherical', label: 'Spherical' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'gaussian', label: 'Gaussian' },
+];
+
+// Normalized variogram shape (0 at h=0, approaching 1 at the range)
+function variogramShape(model: VariogramModel, h: number, range: number): number {
+  if (range <= 0) return h > 0 ? 1 : 0;
+  const r = h / range;
+  switch (model) {
+    case 'spherical':
+      return r >= 1 ? 1 : 1.5 * r - 0.5 * r * r * r;
+    case 'exponential':
+      // Practical range: reaches 95% of the sill at h = range
+      return 1 - Math.exp(-3 * r);
+    case 'gaussian':
+      return 1 - Math.exp(-3 * r * r);
+  }
+}
+
+export function variogramValue(params: VariogramParams, h: number): number {
+  if (h === 0) return 0;
+  return params.nugget + (params.sill - params.nugget) * variogramShape(params.model, h, params.range);
+}
+
+/**
+ * Binned experimental semivariogram. Lags extend to half the maximum
+ * separation distance, where pair counts are still reliable.
+ */
+export function experimentalVariogram(points: KrigingPoint[], nLags = 12): VariogramBin[] {
+  const n = points.length;
+  if (n < 2) return [];
+
+  let maxDist = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      maxDist = Math.max(maxDist, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+    }
+  }
+  if (maxDist === 0) return [];
+
+  const cutoff = maxDist / 2;
+  const width = cutoff / nLags;
+  const sums = new Array(nLags).fill(0);
+  const lagSums = new Array(nLags).fill(0);
+  const counts = new Array(nLags).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const h = Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y);
+      if (h > cutoff) continue;
+      const bin = Math.min(nLags - 1, Math.floor(h / width));
+      const diff = points[i].value - points[j].value;
+      sums[bin] += 0.5 * diff * diff;
+      lagSums[bin] += h;
+      counts[bin]++;
+    }
+  }
+
+  const bins: VariogramBin[] = [];
+  for (let b = 0; b < nLags; b++) {
+    if (counts[b] === 0) continue;
+    bins.push({ lag: lagSums[b] / counts[b], gamma: sums[b] / counts[b], count: counts[b] });
+  }
+  return bins;
+}
+
+/**
+ * Fit a variogram model to the experimental bins by weighted least squares.
+ * For a fixed range the model is linear in nugget and partial sill, so we
+ * search over candidate ranges and solve the 2x2 normal equations for each.
+ */
+export function fitVariogram(points: KrigingPoint[], model: VariogramModel): VariogramParams {
+  const bins = experimentalVariogram(points);
+
+  // Fallback for too few points: use the sample variance as a pure sill
+  const mean = points.reduce((s, p) => s + p.value, 0) / Math.max(points.length, 1);
+  const variance = points.reduce((s, p) => s + (p.value - mean) ** 2, 0) / Math.max(points.length - 1, 1);
+  const maxLag = bins.length > 0 ? bins[bins.length - 1].lag : 1;
+  const fallback: VariogramParams = { model, nugget: 0, sill: variance || 1, range: maxLag || 1 };
+  if (bins.length < 3) return fallback;
+
+  let best: VariogramParams | null = null;
+  let bestError = Infinity;
+
+  for (let k = 1; k <= 60; k++) {
+    const range = (maxLag * 2 * k) / 60;
+    // Weighted normal equations for gamma = c0 + c1 * shape(h)
+    let sw = 0, sf = 0, sff = 0, sg = 0, sfg = 0;
+    for (const bin of bins) {
+      const w = bin.count;
+      const f = variogramShape(model, bin.lag, range);
+      sw += w; sf += w * f; sff += w * f * f; sg += w * bin.gamma; sfg += w * f * bin.gamma;
+    }
+    const det = sw * sff - sf * sf;
+    if (Math.abs(det) < 1e-12) continue;
+
+    let c0 = (sg * sff - sf * sfg) / det;
+    let c1 = (sw * sfg - sf * sg) / det;
+
+    // Constrain to non-negative nugget and partial sill
+    if (c0 < 0) {
+      c0 = 0;
+      c1 = sff > 0 ? sfg / sff : 0;
+    }
+    if (c1 < 0) {
+      c1 = 0;
+      c0 = sg / sw;
+    }
+
+    let error = 0;
+    for (const bin of bins) {
+      const r = c0 + c1 * variogramShape(model, bin.lag, range) - bin.gamma;
+      error += bin.count * r * r;
+    }
+
+    if (error < bestError) {
+      bestError = error;
+      best = { model, nugget: c0, sill: c0 + c1, range };
+    }
+  }
+
+  if (!best || best.sill <= 0) return fallback;
+  return best;
+}
+
+// Invert a square matrix with Gauss-Jordan elimination and partial pivoting
+function invertMatrix(a: number[][]): number[][] | null {
+  const n = a.length;
+  const m = a.map((row, i) => {
+    const ext = new Array(2 * n).fill(0);
+    for (let j = 0; j < n; j++) ext[j] = row[j];
+    ext[n + i] = 1;
+    return ext;
+  });
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const p = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= p;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      if (f === 0) continue;
+      for (let j = 0; j < 2 * n; j++) m[r][j] -= f * m[col][j];
+    }
+  }
+
+  return m.map(row => row.slice(n));
+}
+
+/**
+ * Build an ordinary kriging predictor. The kriging system is inverted once
+ * so each prediction only costs a matrix-vector product.
+ * Returns null if the system is singular (e.g. duplicate well locations).
+ */
+export function createOrdinaryKriging(
+  points: KrigingPoint[],
+  params: VariogramParams
+): ((x: number, y: number) => number) | null {
+  const n = points.length;
+  if (n === 0) return null;
+  if (n === 1) return () => points[0].value;
+
+  const a: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const row = new Array(n + 1);
+    for (let j = 0; j < n; j++) {
+      row[j] = variogramValue(params, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+    }
+    row[n] = 1;
+    a.push(row);
+  }
+  a.push([...new Array(n).fill(1), 0]);
+
+  const inv = invertMatrix(a);
+  if (!inv) return null;
+
+  const b = new Array(n + 1);
+  return (x: number, y: number) => {
+    for (let i = 0; i < n; i++) {
+      b[i] = variogramValue(params, Math.hypot(x - points[i].x, y - points[i].y));
+    }
+    b[n] = 1;
+
+    let estimate = 0;
+    for (let i = 0; i < n; i++) {
+      let w = 0;
+      const row = inv[i];
+      for (let j = 0; j <= n; j++) w += row[j] * b[j];
+      estimate += w * points[i].value;
+    }
+    return estimate;
+  };
+}
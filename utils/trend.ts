@@ -0,0 +1,67 @@
+
+export interface MannKendallResult {
+  s: number; // Mann-Kendall S statistic
+  z: number; // Normal approximation score (continuity corrected)
+  pValue: number; // Two-sided
+  tau: number; // Kendall's tau
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Mann-Kendall trend test with the tie correction to the variance of S.
+ * Values must be in time order.
+ */
+export function mannKendall(values: number[]): MannKendallResult {
+  const n = values.length;
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += Math.sign(values[j] - values[i]);
+    }
+  }
+
+  // Tied groups reduce the variance
+  const ties = new Map<number, number>();
+  for (const v of values) ties.set(v, (ties.get(v) || 0) + 1);
+  let tieTerm = 0;
+  for (const t of ties.values()) {
+    if (t > 1) tieTerm += t * (t - 1) * (2 * t + 5);
+  }
+  const variance = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+
+  let z = 0;
+  if (variance > 0) {
+    if (s > 0) z = (s - 1) / Math.sqrt(variance);
+    else if (s < 0) z = (s + 1) / Math.sqrt(variance);
+  }
+
+  const pairs = (n * (n - 1)) / 2;
+  return {
+    s,
+    z,
+    pValue: 2 * (1 - normalCdf(Math.abs(z))),
+    tau: pairs > 0 ? s / pairs : 0
+  };
+}
+
+// Sen's slope: median of all pairwise slopes (units of y per unit of x)
+export function sensSlope(x: number[], y: number[]): number {
+  const slopes: number[] = [];
+  for (let i = 0; i < x.length - 1; i++) {
+    for (let j = i + 1; j < x.length; j++) {
+      if (x[j] !== x[i]) slopes.push((y[j] - y[i]) / (x[j] - x[i]));
+    }
+  }
+  if (slopes.length === 0) return 0;
+
+  slopes.sort((a, b) => a - b);
+  const mid = Math.floor(slopes.length / 2);
+  return slopes.length % 2 === 0 ? (slopes[mid - 1] + slopes[mid]) / 2 : slopes[mid];
+}
@@ -0,0 +1,25 @@
+
+export type LengthUnit = 'ft' | 'm';
+
+export const LENGTH_UNITS: { value: LengthUnit; label: string }[] = [
+  { value: 'ft', label: 'Feet' },
+  { value: 'm', label: 'Meters' }
+];
+
+const M_PER_FT = 0.3048;
+
+// Multiplier converting lengths from one unit to another
+export function lengthFactor(from: LengthUnit, to: LengthUnit): number {
+  if (from === to) return 1;
+  return from === 'ft' ? M_PER_FT : 1 / M_PER_FT;
+}
+
+// Conversion from a region's data units to the units values are shown in
+export interface DisplayUnits {
+  unit: LengthUnit;
+  factor: number; // Multiply data values by this
+}
+
+export function displayUnits(dataUnit: LengthUnit, displayUnit: LengthUnit): DisplayUnits {
+  return { unit: displayUnit, factor: lengthFactor(dataUnit, displayUnit) };
+}
@@ -0,0 +1,13 @@
+import { Well } from '../types';
+
+export type ValueMode = 'wte' | 'depth';
+
+// loadWells stores a missing GSE as 0, so treat 0 as unknown
+export function hasValidGse(well: Well): boolean {
+  return isFinite(well.gse) && well.gse !== 0;
+}
+
+// Depth to water below ground surface (positive = below ground)
+export function depthToWater(gse: number, wte: number): number {
+  return gse - wte;
+}